@@ -0,0 +1,120 @@
+import { DelayedTab, DelayoBackup } from '@types';
+import { BACKUP_FORMAT, BACKUP_VERSION } from '@utils/validation';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { restoreBackup } from './backup';
+
+// In-memory stand-ins for the delayed tabs and storage.local
+let delayedTabs: DelayedTab[] = [];
+let storageArea: Record<string, unknown> = {};
+
+vi.mock('./storage', () => ({
+  loadDelayedTabs: async (): Promise<DelayedTab[]> => delayedTabs,
+  mutateDelayedTabs: async (
+    mutate: (tabs: DelayedTab[]) => DelayedTab[] | Promise<DelayedTab[]>
+  ): Promise<void> => {
+    delayedTabs = await mutate(delayedTabs);
+  },
+}));
+
+vi.stubGlobal('chrome', {
+  storage: {
+    local: {
+      get: async (keys: string[]) =>
+        Object.fromEntries(
+          keys
+            .filter((key) => key in storageArea)
+            .map((key) => [key, storageArea[key]])
+        ),
+      set: async (items: Record<string, unknown>) => {
+        storageArea = { ...storageArea, ...items };
+      },
+    },
+  },
+});
+
+const makeTab = (id: string, url: string, wakeTime: number): DelayedTab => ({
+  id,
+  url,
+  createdAt: 0,
+  wakeTime,
+});
+
+const makeBackup = (
+  tabs: unknown[],
+  extra: Partial<DelayoBackup> = {}
+): DelayoBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: 0,
+  delayedTabs: tabs as DelayedTab[],
+  ...extra,
+});
+
+describe('restoreBackup', () => {
+  beforeEach(() => {
+    delayedTabs = [
+      makeTab('a', 'https://example.com/a', 1000),
+      makeTab('b', 'https://example.com/b', 2000),
+    ];
+    storageArea = { theme: 'dark' };
+  });
+
+  it('skips merged tabs already delayed for the same URL and wake time', async () => {
+    const summary = await restoreBackup(
+      makeBackup([
+        // Same URL and wake time as "a" under another id
+        makeTab('other-id', 'https://example.com/a', 1000),
+        // Same URL as "b" but a different wake time
+        makeTab('b-later', 'https://example.com/b', 3000),
+        // Listed twice in the backup itself
+        makeTab('c', 'https://example.com/c', 4000),
+        makeTab('c-again', 'https://example.com/c', 4000),
+      ]),
+      'merge'
+    );
+
+    expect(summary).toEqual({ added: 2, duplicates: 2, invalid: 0 });
+    expect(delayedTabs.map((tab) => tab.id)).toEqual([
+      'a',
+      'b',
+      'b-later',
+      'c',
+    ]);
+  });
+
+  it('gives a merged tab a new id when its id is taken', async () => {
+    await restoreBackup(
+      makeBackup([makeTab('a', 'https://example.com/new', 5000)]),
+      'merge'
+    );
+
+    const added = delayedTabs[2];
+    expect(added.url).toBe('https://example.com/new');
+    expect(added.id).not.toBe('a');
+    expect(new Set(delayedTabs.map((tab) => tab.id)).size).toBe(3);
+  });
+
+  it('counts invalid records and keeps current preferences when merging', async () => {
+    const summary = await restoreBackup(
+      makeBackup([{ id: 'broken' }], { theme: 'light' }),
+      'merge'
+    );
+
+    expect(summary).toEqual({ added: 0, duplicates: 0, invalid: 1 });
+    expect(storageArea.theme).toBe('dark');
+  });
+
+  it('swaps in the backup when replacing', async () => {
+    const summary = await restoreBackup(
+      makeBackup([makeTab('a', 'https://example.com/a', 1000)], {
+        theme: 'light',
+      }),
+      'replace'
+    );
+
+    expect(summary).toEqual({ added: 1, duplicates: 0, invalid: 0 });
+    expect(delayedTabs.map((tab) => tab.id)).toEqual(['a']);
+    expect(storageArea.theme).toBe('light');
+  });
+});
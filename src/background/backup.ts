@@ -0,0 +1,120 @@
+import { DelayedTab, DelayoBackup, RestoreMode, RestoreSummary } from '@types';
+import generateUniqueTabId from '@utils/generateUniqueTabId';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  partitionDelayedTabs,
+  sanitizeDelaySettings,
+  validateBackup,
+} from '@utils/validation';
+
+import { loadDelayedTabs, mutateDelayedTabs } from './storage';
+
+const THEMES = ['light', 'dark'];
+
+// Merged tabs count as already delayed when both of these match
+const toDuplicateKey = (tab: DelayedTab): string =>
+  `${tab.url ?? ''}|${tab.wakeTime}`;
+
+/**
+ * Collects delayed tabs, delay settings, theme and language into a backup
+ */
+export async function createBackup(): Promise<DelayoBackup> {
+  const delayedTabs = await loadDelayedTabs();
+  const { delaySettings, theme, savedLanguage } =
+    await chrome.storage.local.get(['delaySettings', 'theme', 'savedLanguage']);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    delayedTabs,
+    delaySettings: sanitizeDelaySettings(delaySettings),
+    ...(THEMES.includes(theme) && { theme }),
+    ...(typeof savedLanguage === 'string' && { savedLanguage }),
+  };
+}
+
+async function restorePreferences(
+  backup: DelayoBackup,
+  mode: RestoreMode
+): Promise<void> {
+  const preferences: Record<string, unknown> = {};
+  if (backup.delaySettings !== undefined) {
+    preferences.delaySettings = sanitizeDelaySettings(backup.delaySettings);
+  }
+  if (THEMES.includes(backup.theme as string)) {
+    preferences.theme = backup.theme;
+  }
+  if (typeof backup.savedLanguage === 'string') {
+    preferences.savedLanguage = backup.savedLanguage;
+  }
+
+  if (mode === 'merge') {
+    const current = await chrome.storage.local.get(Object.keys(preferences));
+    for (const key of Object.keys(current)) {
+      if (current[key] !== undefined) {
+        delete preferences[key];
+      }
+    }
+  }
+
+  await chrome.storage.local.set(preferences);
+}
+
+/**
+ * Restores a backup. Replacing drops every delayed tab first; merging skips
+ * tabs already delayed for the same URL and wake time and gives a new id to
+ * any tab whose id is taken. Either way the wake alarm is moved to cover the
+ * restored tabs.
+ */
+export async function restoreBackup(
+  backup: DelayoBackup,
+  mode: RestoreMode
+): Promise<RestoreSummary> {
+  const backupError = validateBackup(backup);
+  if (backupError) {
+    throw new Error(backupError);
+  }
+  if (mode !== 'replace' && mode !== 'merge') {
+    throw new Error(`Unknown restore mode "${String(mode)}"`);
+  }
+
+  const { valid, quarantined } = partitionDelayedTabs(backup.delayedTabs);
+  const summary: RestoreSummary = {
+    added: 0,
+    duplicates: 0,
+    invalid: quarantined.length,
+  };
+
+  await mutateDelayedTabs((currentTabs) => {
+    if (mode === 'replace') {
+      summary.added = valid.length;
+      return valid;
+    }
+
+    const knownKeys = new Set(currentTabs.map(toDuplicateKey));
+    const knownIds = new Set(currentTabs.map((tab) => tab.id));
+    const addedTabs: DelayedTab[] = [];
+
+    for (const tab of valid) {
+      const key = toDuplicateKey(tab);
+      if (knownKeys.has(key)) {
+        summary.duplicates += 1;
+        continue;
+      }
+      knownKeys.add(key);
+
+      const id = knownIds.has(tab.id) ? generateUniqueTabId() : tab.id;
+      knownIds.add(id);
+      addedTabs.push({ ...tab, id });
+    }
+
+    summary.added = addedTabs.length;
+    return [...currentTabs, ...addedTabs];
+  });
+
+  await restorePreferences(backup, mode);
+
+  return summary;
+}
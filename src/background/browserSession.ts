@@ -0,0 +1,20 @@
+import generateUniqueTabId from '@utils/generateUniqueTabId';
+
+const BROWSER_SESSION_KEY = 'browserSessionId';
+
+/**
+ * Id of the current browser session. chrome.storage.session survives worker
+ * restarts but not browser restarts, which is also when window ids are reused.
+ */
+export default async function getBrowserSessionId(): Promise<string> {
+  const { [BROWSER_SESSION_KEY]: sessionId } =
+    await chrome.storage.session.get(BROWSER_SESSION_KEY);
+
+  if (typeof sessionId === 'string') {
+    return sessionId;
+  }
+
+  const newSessionId = generateUniqueTabId();
+  await chrome.storage.session.set({ [BROWSER_SESSION_KEY]: newSessionId });
+  return newSessionId;
+}
@@ -0,0 +1,119 @@
+import { CatchUpPolicy, DelayedTab } from '@types';
+import isTimedTab from '@utils/isTimedTab';
+import { sanitizeDelaySettings } from '@utils/validation';
+
+import { mutateDelayedTabs } from './storage';
+import { claimDueTabs, holdPendingClaims } from './sync';
+import {
+  completeWake,
+  dropTabsWokenElsewhere,
+  getWorkSchedule,
+  wakeTabsInternal,
+  wakeTabsIntoWindow,
+} from './wake';
+import takePacedBatch from './wakePacing';
+
+export const MISSED_NOTIFICATION_ID = 'missed-while-away';
+
+const getCatchUpPolicy = async (): Promise<CatchUpPolicy> => {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  return sanitizeDelaySettings(delaySettings).catchUpPolicy ?? 'openAll';
+};
+
+async function showMissedSummary(missedTabs: DelayedTab[]): Promise<void> {
+  await chrome.notifications.create(MISSED_NOTIFICATION_ID, {
+    type: 'basic',
+    iconUrl: 'icons/icon128.png',
+    title: 'Missed while away',
+    message: `${missedTabs.length} delayed tab${
+      missedTabs.length === 1 ? '' : 's'
+    } came due while the browser was closed.`,
+    buttons: [{ title: 'Open all' }, { title: 'Choose…' }],
+    requireInteraction: true,
+  });
+}
+
+/**
+ * Applies the user's catch-up policy to tabs whose wake time passed while
+ * the browser was closed and returns the updated list of delayed tabs
+ */
+export async function catchUpMissedTabs(
+  normalizedTabs: DelayedTab[],
+  dueBefore: number = Date.now()
+): Promise<DelayedTab[]> {
+  // Tabs already held back by an earlier summary wait for the user's choice
+  const overdueTabs = normalizedTabs.filter(
+    (tab) => isTimedTab(tab) && tab.wakeTime <= dueBefore && !tab.missedAt
+  );
+
+  if (overdueTabs.length === 0) {
+    return normalizedTabs;
+  }
+
+  // Tabs another device claimed are left to it. Fresh claims stay due and
+  // wake through the wake alarm once they have settled, as alarm wakes do.
+  const { mine, elsewhere, pending } = await claimDueTabs(overdueTabs);
+  await holdPendingClaims(pending);
+  const missedTabs = mine;
+  const remainingTabs = dropTabsWokenElsewhere(elsewhere, normalizedTabs);
+
+  if (missedTabs.length === 0) {
+    return remainingTabs;
+  }
+
+  switch (await getCatchUpPolicy()) {
+    case 'missedWindow':
+      return wakeTabsIntoWindow(
+        missedTabs,
+        remainingTabs,
+        'Missed while away'
+      );
+
+    case 'summary':
+      // Missed tabs stay pending, and flagged as late, until the user chooses.
+      // Flagged tabs no longer count towards the wake alarm.
+      await showMissedSummary(missedTabs);
+      return remainingTabs.map((tab) =>
+        missedTabs.includes(tab) ? { ...tab, missedAt: Date.now() } : tab
+      );
+
+    case 'skipRecurring': {
+      const recurringTabs = missedTabs.filter((tab) => tab.isRecurring);
+      const updatedTabs = completeWake(
+        recurringTabs,
+        remainingTabs,
+        await getWorkSchedule()
+      );
+      return wakeTabsInternal(
+        await takePacedBatch(missedTabs.filter((tab) => !tab.isRecurring)),
+        updatedTabs
+      );
+    }
+
+    // A paced backlog leaves the rest due, so the wake alarm picks them up
+    case 'openAll':
+    default:
+      return wakeTabsInternal(await takePacedBatch(missedTabs), remainingTabs);
+  }
+}
+
+export async function handleMissedSummaryButton(
+  buttonIndex: number
+): Promise<void> {
+  await chrome.notifications.clear(MISSED_NOTIFICATION_ID);
+
+  if (buttonIndex !== 0) {
+    await chrome.runtime.openOptionsPage();
+    return;
+  }
+
+  await mutateDelayedTabs((normalizedTabs) => {
+    const now = Date.now();
+
+    return wakeTabsIntoWindow(
+      normalizedTabs.filter((tab) => isTimedTab(tab) && tab.wakeTime <= now),
+      normalizedTabs,
+      'Missed while away'
+    );
+  });
+}
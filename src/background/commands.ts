@@ -0,0 +1,31 @@
+import { DelayPresetId } from '@types';
+
+import { delayTabsWithPreset, openPopupAt } from './quickDelay';
+
+export const OPEN_CUSTOM_DELAY_COMMAND = 'open-custom-delay';
+
+const PRESET_COMMANDS: Record<string, DelayPresetId> = {
+  'delay-later-today': 'later_today',
+  'delay-tomorrow': 'tomorrow',
+  'delay-next-week': 'next_week',
+  'delay-someday': 'someday',
+};
+
+export async function handleCommand(command: string): Promise<void> {
+  if (command === OPEN_CUSTOM_DELAY_COMMAND) {
+    await openPopupAt('/custom-delay');
+    return;
+  }
+
+  const presetId = PRESET_COMMANDS[command];
+  if (!presetId) {
+    return;
+  }
+
+  // Like the popup, a multi-tab selection is delayed as a whole
+  const highlightedTabs = await chrome.tabs.query({
+    highlighted: true,
+    currentWindow: true,
+  });
+  await delayTabsWithPreset(highlightedTabs, presetId);
+}
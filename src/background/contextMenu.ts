@@ -0,0 +1,126 @@
+import { DelayPresetId, DelaySettings } from '@types';
+import { DELAY_PRESET_IDS } from '@utils/calculatePresetWakeTime';
+import { sanitizeDelaySettings } from '@utils/validation';
+
+import {
+  delayLinkWithPreset,
+  delayTabsWithPreset,
+  openPopupAt,
+} from './quickDelay';
+
+const TAB_MENU_ID = 'delay-tab';
+const LINK_MENU_ID = 'delay-link';
+const CUSTOM_ITEM = 'custom';
+
+let pendingRebuild: Promise<void> = Promise.resolve();
+
+const getPresetTitle = (
+  presetId: DelayPresetId,
+  settings: DelaySettings
+): string => {
+  switch (presetId) {
+    case 'later_today':
+      return `Later today (+${settings.laterToday}h)`;
+    case 'tonight':
+      return `Tonight (${settings.tonightTime})`;
+    case 'tomorrow':
+      return `Tomorrow (${settings.tomorrowTime})`;
+    case 'weekend':
+      return `This weekend (${
+        settings.weekendDay === 'saturday' ? 'Saturday' : 'Sunday'
+      } ${settings.weekendTime})`;
+    case 'next_week':
+      return 'Next week';
+    case 'next_month':
+      return 'Next month';
+    case 'someday':
+    default:
+      return 'Someday';
+  }
+};
+
+const createMenuItem = (
+  properties: chrome.contextMenus.CreateProperties
+): void => {
+  chrome.contextMenus.create(properties, () => {
+    if (chrome.runtime.lastError) {
+      console.error('Error creating menu item:', chrome.runtime.lastError);
+    }
+  });
+};
+
+async function buildContextMenus(): Promise<void> {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  const settings = sanitizeDelaySettings(delaySettings);
+
+  await chrome.contextMenus.removeAll();
+
+  const menus: Array<{
+    id: string;
+    title: string;
+    contexts: chrome.contextMenus.ContextType[];
+  }> = [
+    { id: TAB_MENU_ID, title: 'Delay this tab', contexts: ['page'] },
+    { id: LINK_MENU_ID, title: 'Delay this link', contexts: ['link'] },
+  ];
+
+  menus.forEach(({ id, title, contexts }) => {
+    createMenuItem({ id, title, contexts });
+
+    DELAY_PRESET_IDS.forEach((presetId) => {
+      createMenuItem({
+        id: `${id}:${presetId}`,
+        parentId: id,
+        title: getPresetTitle(presetId, settings),
+        contexts,
+      });
+    });
+
+    createMenuItem({
+      id: `${id}:${CUSTOM_ITEM}`,
+      parentId: id,
+      title: 'Custom…',
+      contexts,
+    });
+  });
+}
+
+/**
+ * Recreates the delay menus so their titles follow the current settings.
+ * Rebuilds run one after another so menu ids never collide.
+ */
+export function rebuildContextMenus(): Promise<void> {
+  pendingRebuild = pendingRebuild
+    .then(buildContextMenus)
+    .catch((error) => console.error('Error building context menus:', error));
+  return pendingRebuild;
+}
+
+export async function handleContextMenuClick(
+  info: chrome.contextMenus.OnClickData,
+  tab?: chrome.tabs.Tab
+): Promise<void> {
+  const [menuId, item] = String(info.menuItemId).split(':');
+
+  if (menuId === TAB_MENU_ID && tab?.id) {
+    if (item === CUSTOM_ITEM) {
+      await openPopupAt('/custom-delay');
+    } else {
+      await delayTabsWithPreset([tab], item as DelayPresetId);
+    }
+    return;
+  }
+
+  if (menuId === LINK_MENU_ID && info.linkUrl) {
+    const link = {
+      url: info.linkUrl,
+      title: info.selectionText?.trim() || info.linkUrl,
+    };
+
+    if (item === CUSTOM_ITEM) {
+      await openPopupAt('/custom-delay', link);
+    } else {
+      await delayLinkWithPreset(link, item as DelayPresetId);
+    }
+  }
+}
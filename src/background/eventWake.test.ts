@@ -0,0 +1,141 @@
+import { DelayedTab } from '@types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { recordOffline, wakeReachableTabs } from './eventWake';
+
+const MINUTE_MS = 60 * 1000;
+
+// In-memory stand-ins for the delayed tabs and storage.session
+let delayedTabs: DelayedTab[] = [];
+let sessionArea: Record<string, unknown> = {};
+let wokenIds: string[] = [];
+let unreachableUrls = new Set<string>();
+
+vi.mock('./storage', () => ({
+  loadDelayedTabs: async (): Promise<DelayedTab[]> => delayedTabs,
+  mutateDelayedTabs: async (
+    mutate: (tabs: DelayedTab[]) => DelayedTab[] | Promise<DelayedTab[]>
+  ): Promise<void> => {
+    delayedTabs = await mutate(delayedTabs);
+  },
+}));
+
+vi.mock('./sync', () => ({
+  CLAIM_SETTLE_MS: 0,
+  claimDueTabs: async (dueTabs: DelayedTab[]) => ({
+    mine: dueTabs,
+    elsewhere: [],
+    pending: [],
+  }),
+  requestSync: () => undefined,
+}));
+
+vi.mock('./wake', () => ({
+  dropTabsWokenElsewhere: (_: DelayedTab[], tabs: DelayedTab[]) => tabs,
+  wakeTabsInternal: async (tabsToWake: DelayedTab[], tabs: DelayedTab[]) => {
+    wokenIds.push(...tabsToWake.map((tab) => tab.id));
+    return tabs.filter((tab) => !tabsToWake.includes(tab));
+  },
+}));
+
+vi.stubGlobal('chrome', {
+  storage: {
+    session: {
+      get: async (key: string) =>
+        key in sessionArea ? { [key]: sessionArea[key] } : {},
+      set: async (items: Record<string, unknown>) => {
+        sessionArea = { ...sessionArea, ...items };
+      },
+    },
+  },
+});
+
+vi.stubGlobal('navigator', { onLine: true });
+
+vi.stubGlobal(
+  'fetch',
+  vi.fn(async (url: string) => {
+    if (unreachableUrls.has(url)) {
+      throw new TypeError('Failed to fetch');
+    }
+    return new Response();
+  })
+);
+
+const makeTab = (id: string, extra: Partial<DelayedTab> = {}): DelayedTab => ({
+  id,
+  url: `https://example.com/${id}`,
+  createdAt: 1000,
+  wakeTime: 1000,
+  trigger: 'online',
+  ...extra,
+});
+
+describe('wakeReachableTabs', () => {
+  const now = 10 * MINUTE_MS;
+
+  beforeEach(() => {
+    delayedTabs = [];
+    sessionArea = {};
+    wokenIds = [];
+    unreachableUrls = new Set();
+    vi.stubGlobal('navigator', { onLine: true });
+  });
+
+  it('leaves tabs alone while the connection never went away', async () => {
+    delayedTabs = [makeTab('a')];
+
+    await wakeReachableTabs(now);
+
+    expect(wokenIds).toEqual([]);
+    expect(delayedTabs[0].wakeTime).toBe(now + 30 * MINUTE_MS);
+  });
+
+  it('wakes tabs once the browser is back from being offline', async () => {
+    delayedTabs = [makeTab('a'), makeTab('later', { createdAt: now })];
+    vi.stubGlobal('navigator', { onLine: false });
+
+    await wakeReachableTabs(now - MINUTE_MS);
+
+    expect(wokenIds).toEqual([]);
+
+    vi.stubGlobal('navigator', { onLine: true });
+    await wakeReachableTabs(now);
+
+    expect(wokenIds).toEqual(['a']);
+    expect(delayedTabs.map((tab) => tab.id)).toEqual(['later']);
+  });
+
+  it('checks tabs at once after an outage, before their next check', async () => {
+    delayedTabs = [makeTab('a', { wakeTime: now + 20 * MINUTE_MS })];
+    await recordOffline(now - MINUTE_MS);
+
+    await wakeReachableTabs(now);
+
+    expect(wokenIds).toEqual(['a']);
+  });
+
+  it('retries unreachable pages and wakes them once they answer', async () => {
+    delayedTabs = [makeTab('vpn')];
+    unreachableUrls.add('https://example.com/vpn');
+
+    await wakeReachableTabs(now);
+
+    expect(delayedTabs[0]).toMatchObject({
+      wakeTime: now + MINUTE_MS,
+      retryCount: 1,
+    });
+
+    await wakeReachableTabs(now + MINUTE_MS);
+
+    expect(delayedTabs[0]).toMatchObject({
+      wakeTime: now + 3 * MINUTE_MS,
+      retryCount: 2,
+    });
+
+    unreachableUrls.clear();
+    await wakeReachableTabs(now + 3 * MINUTE_MS);
+
+    expect(wokenIds).toEqual(['vpn']);
+  });
+});
@@ -0,0 +1,254 @@
+import { DelayedTab, WakeTrigger } from '@types';
+import isTimedTab from '@utils/isTimedTab';
+import { sanitizeDelaySettings } from '@utils/validation';
+
+import { loadDelayedTabs, mutateDelayedTabs } from './storage';
+import { CLAIM_SETTLE_MS, claimDueTabs, requestSync } from './sync';
+import { dropTabsWokenElsewhere, wakeTabsInternal } from './wake';
+
+// Fires once the claims of tabs whose event came are settled
+export const EVENT_CLAIM_ALARM = 'event-claim';
+// Ids of those tabs, in chrome.storage.session
+const PENDING_EVENT_WAKES_KEY = 'pendingEventWakes';
+// When the browser was last seen offline, in chrome.storage.session
+const LAST_OFFLINE_KEY = 'lastOfflineAt';
+
+// Unreachable pages are checked again after 1, 2, 4... minutes, up to this
+const MAX_RETRY_DELAY_MINUTES = 30;
+const REACHABILITY_TIMEOUT_MS = 15 * 1000;
+// Pages that answer before any outage was seen are checked this often, so a
+// host that later drops off, such as one behind a VPN, is still noticed
+const REACHABLE_RECHECK_MS = MAX_RETRY_DELAY_MINUTES * 60 * 1000;
+
+const getTriggeredTabs = (
+  tabs: DelayedTab[],
+  trigger: WakeTrigger
+): DelayedTab[] => tabs.filter((tab) => tab.trigger === trigger);
+
+// Tabs delayed together as a window wake, or wait, together
+const getSessionKey = (tab: DelayedTab): string =>
+  tab.windowSessionId ?? tab.id;
+
+const getRetryDelay = (retryCount: number = 0): number =>
+  Math.min(2 ** retryCount, MAX_RETRY_DELAY_MINUTES) * 60 * 1000;
+
+/**
+ * Remembers tabs whose event came while their claims settle. Event tabs
+ * have no wake time for the wake alarm, so their own alarm wakes them.
+ */
+async function holdPendingEventWakes(
+  pendingTabs: DelayedTab[],
+  now: number
+): Promise<void> {
+  if (pendingTabs.length === 0) {
+    return;
+  }
+
+  const { [PENDING_EVENT_WAKES_KEY]: heldIds = [] } =
+    await chrome.storage.session.get(PENDING_EVENT_WAKES_KEY);
+  await chrome.storage.session.set({
+    [PENDING_EVENT_WAKES_KEY]: [
+      ...new Set([...heldIds, ...pendingTabs.map((tab) => tab.id)]),
+    ],
+  });
+  await chrome.alarms.create(EVENT_CLAIM_ALARM, {
+    when: now + CLAIM_SETTLE_MS,
+  });
+}
+
+// Tabs claimed here wake, tabs another device claimed are dropped and fresh
+// claims wait to settle, as alarm wakes do
+async function wakeTriggeredTabs(
+  triggeredTabs: DelayedTab[],
+  normalizedTabs: DelayedTab[],
+  now: number = Date.now()
+): Promise<DelayedTab[]> {
+  const { mine, elsewhere, pending } = await claimDueTabs(triggeredTabs, now);
+  await holdPendingEventWakes(pending, now);
+
+  return wakeTabsInternal(
+    mine,
+    dropTabsWokenElsewhere(elsewhere, normalizedTabs)
+  );
+}
+
+/**
+ * Wakes the tabs held by holdPendingEventWakes whose claims have settled
+ * on this device. Runs on the event claim alarm.
+ */
+export async function wakeSettledEventTabs(): Promise<void> {
+  const { [PENDING_EVENT_WAKES_KEY]: heldIds = [] } =
+    await chrome.storage.session.get(PENDING_EVENT_WAKES_KEY);
+  await chrome.storage.session.remove(PENDING_EVENT_WAKES_KEY);
+  if (heldIds.length === 0) {
+    return;
+  }
+
+  const ids = new Set<string>(heldIds);
+  await mutateDelayedTabs(async (normalizedTabs) => {
+    const heldTabs = normalizedTabs.filter(
+      (tab) => ids.has(tab.id) && !isTimedTab(tab)
+    );
+    return heldTabs.length > 0
+      ? wakeTriggeredTabs(heldTabs, normalizedTabs)
+      : normalizedTabs;
+  });
+
+  requestSync();
+}
+
+/**
+ * Wakes every tab waiting for the given event. Quiet hours and pacing do
+ * not apply, since the event means the user is there to see them.
+ */
+export async function wakeOnEvent(trigger: WakeTrigger): Promise<void> {
+  let wokenCount = 0;
+
+  await mutateDelayedTabs(async (normalizedTabs) => {
+    const triggeredTabs = getTriggeredTabs(normalizedTabs, trigger);
+    if (triggeredTabs.length === 0) {
+      return normalizedTabs;
+    }
+
+    wokenCount = triggeredTabs.length;
+    return wakeTriggeredTabs(triggeredTabs, normalizedTabs);
+  });
+
+  if (wokenCount > 0) {
+    requestSync();
+  }
+}
+
+/**
+ * Sets how long the user must be away before coming back wakes the tabs
+ * delayed until then. Locking the screen always counts.
+ */
+export async function applyIdleDetectionInterval(): Promise<void> {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  const { idleMinutes = 15 } = sanitizeDelaySettings(delaySettings);
+  chrome.idle.setDetectionInterval(idleMinutes * 60);
+}
+
+/**
+ * Wakes the 'idleReturn' tabs when the user comes back from being idle or
+ * locked
+ */
+export async function handleIdleStateChange(
+  state: chrome.idle.IdleState
+): Promise<void> {
+  if (state === 'active') {
+    await wakeOnEvent('idleReturn');
+  }
+}
+
+/**
+ * Whether a page answers at all. The response stays opaque, so a server
+ * error page counts as reachable; only network failures, such as a host
+ * that is down or only resolves on a VPN, do not.
+ */
+async function isReachable(url: string | undefined): Promise<boolean> {
+  if (!url || !/^https?:/.test(url)) {
+    return true;
+  }
+
+  try {
+    await globalThis.fetch(url, {
+      method: 'HEAD',
+      mode: 'no-cors',
+      cache: 'no-store',
+      credentials: 'omit',
+      signal: AbortSignal.timeout(REACHABILITY_TIMEOUT_MS),
+    });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Notes that the browser is offline, or was until just now, so the
+ * 'online' tabs delayed before now wake once their pages answer again
+ */
+export async function recordOffline(now: number = Date.now()): Promise<void> {
+  await chrome.storage.session.set({ [LAST_OFFLINE_KEY]: now });
+}
+
+/**
+ * Wakes the 'online' tabs whose page can be reached again after an outage:
+ * the browser went offline after the tab was delayed, or a check of its
+ * page failed. Unreachable pages wait with a growing delay before their
+ * next check. Runs when the browser goes back online and on the online
+ * check alarm, and only records the outage while offline.
+ */
+export async function wakeReachableTabs(
+  now: number = Date.now()
+): Promise<void> {
+  if (!navigator.onLine) {
+    await recordOffline(now);
+    return;
+  }
+
+  const { [LAST_OFFLINE_KEY]: lastOfflineAt = -Infinity } =
+    await chrome.storage.session.get(LAST_OFFLINE_KEY);
+  const wentOffline = (tab: DelayedTab): boolean =>
+    lastOfflineAt >= tab.createdAt;
+
+  // Tabs not checked since the browser went offline are checked at once
+  const checkedTabs = getTriggeredTabs(
+    await loadDelayedTabs(),
+    'online'
+  ).filter(
+    (tab) => tab.wakeTime <= now || (!tab.retryCount && wentOffline(tab))
+  );
+  if (checkedTabs.length === 0) {
+    return;
+  }
+
+  // A window wakes once any of its pages answers, since that shows the
+  // connection is back
+  const reachableSessions = new Set<string>();
+  await Promise.all(
+    checkedTabs.map(async (tab) => {
+      if (await isReachable(tab.url)) {
+        reachableSessions.add(getSessionKey(tab));
+      }
+    })
+  );
+  const recoveredSessions = new Set(
+    checkedTabs
+      .filter((tab) => tab.retryCount || wentOffline(tab))
+      .map(getSessionKey)
+  );
+  const checkedIds = new Set(checkedTabs.map((tab) => tab.id));
+
+  await mutateDelayedTabs(async (normalizedTabs) => {
+    const updatedTabs = normalizedTabs.map((tab) => {
+      if (!checkedIds.has(tab.id)) {
+        return tab;
+      }
+      if (!reachableSessions.has(getSessionKey(tab))) {
+        return {
+          ...tab,
+          wakeTime: now + getRetryDelay(tab.retryCount),
+          retryCount: (tab.retryCount ?? 0) + 1,
+        };
+      }
+      // Reachable all along, so the connection never went away
+      return recoveredSessions.has(getSessionKey(tab))
+        ? tab
+        : { ...tab, wakeTime: now + REACHABLE_RECHECK_MS };
+    });
+    const reachableTabs = updatedTabs.filter(
+      (tab) =>
+        checkedIds.has(tab.id) &&
+        reachableSessions.has(getSessionKey(tab)) &&
+        recoveredSessions.has(getSessionKey(tab))
+    );
+
+    return reachableTabs.length > 0
+      ? wakeTriggeredTabs(reachableTabs, updatedTabs)
+      : updatedTabs;
+  });
+
+  requestSync();
+}
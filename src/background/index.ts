@@ -1,334 +1,267 @@
-import { DelayedTab, RecurrencePattern } from '@types';
-import generateUniqueTabId from '@utils/generateUniqueTabId';
-import normalizeDelayedTabs from '@utils/normalizeDelayedTabs';
-
-chrome.runtime.onInstalled.addListener(({ reason }) => {
+import { BackgroundRequest } from '@types';
+
+import { handleMissedSummaryButton, MISSED_NOTIFICATION_ID } from './catchUp';
+import { handleCommand } from './commands';
+import { handleContextMenuClick, rebuildContextMenus } from './contextMenu';
+import {
+  applyIdleDetectionInterval,
+  EVENT_CLAIM_ALARM,
+  handleIdleStateChange,
+  recordOffline,
+  wakeOnEvent,
+  wakeReachableTabs,
+  wakeSettledEventTabs,
+} from './eventWake';
+import handleBackgroundRequest from './messages';
+import runMigrations from './migrations';
+import {
+  handleWakeNotificationButton,
+  handleWakeNotificationClick,
+} from './notificationActions';
+import {
+  handleOmniboxInputChanged,
+  handleOmniboxInputEntered,
+} from './omnibox';
+import reconcileDelayedTabs from './reconcile';
+import {
+  getDueTabs,
+  LEGACY_ALARM_PREFIX,
+  ONLINE_CHECK_ALARM,
+  syncWakeAlarm,
+  WAKE_ALARM,
+} from './scheduler';
+import { loadDelayedTabs, mutateDelayedTabs } from './storage';
+import {
+  claimDueTabs,
+  holdPendingClaims,
+  requestSync,
+  scheduleSync,
+  SYNC_ALARM,
+  SYNC_META_KEY,
+  syncDelayedTabs,
+} from './sync';
+import { handleTimeZoneChange, TIME_ZONE_ALARM } from './timeZone';
+import { dropTabsWokenElsewhere, wakeTabsInternal } from './wake';
+import { HELD_NOTIFICATION_ID, holdDueTabs } from './wakeHold';
+import {
+  forgetWakeNotification,
+  isWakeNotification,
+} from './wakeNotifications';
+import takePacedBatch from './wakePacing';
+
+chrome.runtime.onInstalled.addListener(async ({ reason }) => {
   if (reason === 'install') {
-    chrome.storage.local.set({ delayedTabs: [] });
+    await mutateDelayedTabs(() => []);
+  }
 
-    chrome.contextMenus.create({
-      id: 'delay-tab',
-      title: 'Delay this tab',
-      contexts: ['page'],
-    });
+  // Menus are rebuilt on every install and update so they never go missing
+  await rebuildContextMenus();
+
+  if (reason === 'install' || reason === 'update') {
+    await runMigrations();
+    await reconcileDelayedTabs(reason);
   }
 });
 
-chrome.contextMenus.onClicked.addListener((info, tab) => {
-  if (info.menuItemId === 'delay-tab' && tab?.id) {
-    chrome.action.openPopup();
+chrome.contextMenus.onClicked.addListener(async (info, tab) => {
+  try {
+    await handleContextMenuClick(info, tab);
+  } catch (error) {
+    console.error('Error handling menu click:', info.menuItemId, error);
   }
 });
 
-function calculateNextWakeTime(
-  recurrencePattern: RecurrencePattern
-): number | null {
-  const now = new Date();
-  const [hours, minutes] = recurrencePattern.time.split(':').map(Number);
-
-  if (recurrencePattern.endDate && now.getTime() >= recurrencePattern.endDate) {
-    return null;
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes.delaySettings) {
+    rebuildContextMenus();
+    applyIdleDetectionInterval().catch((error) =>
+      console.error('Error setting the idle detection interval:', error)
+    );
+    scheduleSync().catch((error) =>
+      console.error('Error scheduling sync:', error)
+    );
+    requestSync();
   }
-
-  const nextWakeTime = new Date();
-  nextWakeTime.setHours(hours, minutes, 0, 0);
-
-  switch (recurrencePattern.type) {
-    case 'daily':
-      if (nextWakeTime.getTime() <= now.getTime()) {
-        nextWakeTime.setDate(nextWakeTime.getDate() + 1);
-      }
-      break;
-
-    case 'weekdays': {
-      nextWakeTime.setDate(nextWakeTime.getDate() + 1);
-      while (nextWakeTime.getDay() === 0 || nextWakeTime.getDay() === 6) {
-        nextWakeTime.setDate(nextWakeTime.getDate() + 1);
-      }
-      break;
-    }
-
-    case 'weekly':
-    case 'custom': {
-      if (
-        !recurrencePattern.daysOfWeek ||
-        recurrencePattern.daysOfWeek.length === 0
-      ) {
-        return null;
-      }
-
-      const currentDay = now.getDay();
-      const sortedDays = [...recurrencePattern.daysOfWeek].sort(
-        (a, b) => a - b
-      );
-
-      const nextDayIndex = sortedDays.findIndex((day) => day > currentDay);
-
-      if (nextDayIndex !== -1) {
-        const daysToAdd = sortedDays[nextDayIndex] - currentDay;
-        nextWakeTime.setDate(now.getDate() + daysToAdd);
-      } else {
-        const daysToAdd = 7 - currentDay + sortedDays[0];
-        nextWakeTime.setDate(now.getDate() + daysToAdd);
-      }
-
-      if (
-        nextWakeTime.getDay() === currentDay &&
-        nextWakeTime.getTime() <= now.getTime()
-      ) {
-        nextWakeTime.setDate(nextWakeTime.getDate() + 7);
-      }
-      break;
-    }
-
-    case 'monthly': {
-      nextWakeTime.setDate(recurrencePattern.dayOfMonth || 1);
-
-      if (nextWakeTime.getTime() <= now.getTime()) {
-        nextWakeTime.setMonth(nextWakeTime.getMonth() + 1);
-      }
-      break;
-    }
-
-    default:
-      // Default case
-      return null;
+  // Another device wrote a new revision of the synced tabs
+  if (areaName === 'sync' && changes[SYNC_META_KEY]) {
+    requestSync();
   }
+});
 
-  return nextWakeTime.getTime();
-}
-
-async function handleSingleTabWake(
-  delayedTab: DelayedTab,
-  allTabs: DelayedTab[]
-): Promise<DelayedTab[]> {
-  if (delayedTab.url) {
-    await chrome.tabs.create({ url: delayedTab.url });
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (alarm.name === TIME_ZONE_ALARM) {
+    await handleTimeZoneChange();
+    return;
   }
 
-  await chrome.notifications.create({
-    type: 'basic',
-    iconUrl: delayedTab.favicon || 'icons/icon128.png',
-    title: 'Tab Awakened!',
-    message: `Your ${delayedTab.isRecurring ? 'recurring' : 'delayed'} tab "${delayedTab.title}" is now open.`,
-  });
-
-  await chrome.alarms.clear(`delayed-tab-${delayedTab.id}`);
-
-  let updatedTabs = allTabs.filter((tab) => tab.id !== delayedTab.id);
+  if (alarm.name === SYNC_ALARM) {
+    await syncDelayedTabs();
+    return;
+  }
 
-  if (delayedTab.isRecurring && delayedTab.recurrencePattern) {
-    const nextWakeTime = calculateNextWakeTime(delayedTab.recurrencePattern);
+  if (alarm.name === ONLINE_CHECK_ALARM) {
+    await wakeReachableTabs();
+    return;
+  }
 
-    if (nextWakeTime) {
-      const newTabId = generateUniqueTabId();
-      const updatedTab = {
-        ...delayedTab,
-        id: newTabId,
-        wakeTime: nextWakeTime,
-      };
+  if (alarm.name === EVENT_CLAIM_ALARM) {
+    await wakeSettledEventTabs();
+    return;
+  }
 
-      updatedTabs.push(updatedTab);
+  if (
+    alarm.name === WAKE_ALARM ||
+    alarm.name.startsWith(LEGACY_ALARM_PREFIX)
+  ) {
+    try {
+      await runMigrations();
+
+      // Everything that came due is woken in one pass, however many tabs
+      await mutateDelayedTabs(async (normalizedTabs) => {
+        const dueTabs = getDueTabs(normalizedTabs);
+
+        // The alarm fired early or went stale, or the wakes are held, so
+        // just move it
+        if (dueTabs.length === 0 || (await holdDueTabs(dueTabs))) {
+          await syncWakeAlarm(normalizedTabs);
+          return normalizedTabs;
+        }
+
+        // With sync on, each tab wakes on the one device that claimed it
+        const { mine, elsewhere, pending } = await claimDueTabs(
+          await takePacedBatch(dueTabs)
+        );
+        await holdPendingClaims(pending);
 
-      await chrome.alarms.create(`delayed-tab-${newTabId}`, {
-        when: nextWakeTime,
+        return wakeTabsInternal(
+          mine,
+          dropTabsWokenElsewhere(elsewhere, normalizedTabs)
+        );
       });
+      requestSync();
+    } catch (error) {
+      console.error('Error waking due tabs:', error);
+    } finally {
+      // A failed pass writes nothing, and the one-shot alarm is spent, so it
+      // is re-armed for whatever is still delayed
+      await loadDelayedTabs()
+        .then(syncWakeAlarm)
+        .catch((error) => console.error('Error re-arming wake alarm:', error));
     }
   }
+});
 
-  return updatedTabs;
-}
-
-async function handleWindowWake(
-  windowTabs: DelayedTab[],
-  allTabs: DelayedTab[]
-): Promise<DelayedTab[]> {
-  if (windowTabs.length === 0) {
-    return allTabs;
+chrome.idle.onStateChanged.addListener(async (state) => {
+  try {
+    await handleIdleStateChange(state);
+  } catch (error) {
+    console.error('Error waking tabs on return:', state, error);
   }
+});
 
-  const sortedTabs = [...windowTabs].sort((a, b) => {
-    const indexA = typeof a.windowIndex === 'number' ? a.windowIndex : 0;
-    const indexB = typeof b.windowIndex === 'number' ? b.windowIndex : 0;
-    return indexA - indexB;
-  });
-
-  const urls = sortedTabs
-    .map((tab) => tab.url)
-    .filter((url): url is string => Boolean(url));
-
-  if (urls.length > 0) {
-    await chrome.windows.create({ url: urls });
+globalThis.addEventListener('offline', async () => {
+  try {
+    await recordOffline();
+  } catch (error) {
+    console.error('Error recording the browser going offline:', error);
   }
+});
 
-  const firstTab = sortedTabs[0];
-
-  await chrome.notifications.create({
-    type: 'basic',
-    iconUrl: firstTab.favicon || 'icons/icon128.png',
-    title: 'Window Awakened!',
-    message: `Your ${firstTab.isRecurring ? 'recurring' : 'delayed'} window with ${sortedTabs.length} tab${
-      sortedTabs.length === 1 ? '' : 's'
-    } is now open.`,
-  });
-
-  for (const tab of sortedTabs) {
-    await chrome.alarms.clear(`delayed-tab-${tab.id}`);
+globalThis.addEventListener('online', async () => {
+  try {
+    // The browser was offline until this event
+    await recordOffline();
+    await wakeReachableTabs();
+  } catch (error) {
+    console.error('Error waking tabs back online:', error);
   }
+});
 
-  let updatedTabs = allTabs.filter(
-    (tab) => !sortedTabs.some((windowTab) => windowTab.id === tab.id)
-  );
-
-  const recurringTabs = sortedTabs.filter(
-    (tab) => tab.isRecurring && tab.recurrencePattern
-  );
-
-  if (recurringTabs.length > 0) {
-    const newWindowSessionId = generateUniqueTabId();
-
-    for (const tab of recurringTabs) {
-      const nextWakeTime = tab.recurrencePattern
-        ? calculateNextWakeTime(tab.recurrencePattern)
-        : null;
-
-      if (!nextWakeTime) {
-        continue;
-      }
-
-      const newTabId = generateUniqueTabId();
-      const updatedTab = {
-        ...tab,
-        id: newTabId,
-        wakeTime: nextWakeTime,
-        windowSessionId: tab.windowSessionId ? newWindowSessionId : tab.windowSessionId,
-      };
-
-      updatedTabs.push(updatedTab);
-
-      await chrome.alarms.create(`delayed-tab-${newTabId}`, {
-        when: nextWakeTime,
-      });
-    }
+chrome.commands.onCommand.addListener(async (command) => {
+  try {
+    await handleCommand(command);
+  } catch (error) {
+    console.error('Error handling command:', command, error);
   }
+});
 
-  return updatedTabs;
-}
-
-async function wakeTabsInternal(
-  tabsToWake: DelayedTab[],
-  normalizedTabs: DelayedTab[]
-): Promise<DelayedTab[]> {
-  let updatedTabs = [...normalizedTabs];
-  const processedWindowSessions = new Set<string>();
-
-  for (const tab of tabsToWake) {
-    if (tab.windowSessionId) {
-      if (processedWindowSessions.has(tab.windowSessionId)) {
-        continue;
-      }
-
-      processedWindowSessions.add(tab.windowSessionId);
-
-      const windowTabs = normalizedTabs.filter(
-        (item) =>
-          item.windowSessionId === tab.windowSessionId &&
-          item.wakeTime === tab.wakeTime
-      );
-
-      updatedTabs = await handleWindowWake(windowTabs, updatedTabs);
-    } else {
-      updatedTabs = await handleSingleTabWake(tab, updatedTabs);
-    }
+chrome.omnibox.onInputChanged.addListener(async (text, suggest) => {
+  try {
+    await handleOmniboxInputChanged(text, suggest);
+  } catch (error) {
+    console.error('Error suggesting omnibox delays:', text, error);
   }
+});
 
-  return updatedTabs;
-}
-
-chrome.alarms.onAlarm.addListener(async (alarm) => {
-  if (alarm.name.startsWith('delayed-tab-')) {
-    try {
-      const tabId = alarm.name.replace('delayed-tab-', '');
-
-      const { delayedTabs = [] } =
-        await chrome.storage.local.get('delayedTabs');
-      const normalizedTabs = normalizeDelayedTabs(delayedTabs);
-
-      const delayedTab = normalizedTabs.find(
-        (tab: DelayedTab) => tab.id === tabId
-      );
-
-      if (delayedTab) {
-        const updatedTabs = await wakeTabsInternal(
-          [delayedTab],
-          normalizedTabs
-        );
-
-        await chrome.storage.local.set({ delayedTabs: updatedTabs });
-      }
-    } catch (error) {
-      // Handle errors waking the tab
-      if (chrome.runtime.lastError) {
-        // Log runtime errors for debugging
-      }
-    }
+chrome.omnibox.onInputEntered.addListener(async (text) => {
+  try {
+    await handleOmniboxInputEntered(text);
+  } catch (error) {
+    console.error('Error handling omnibox input:', text, error);
   }
 });
 
 chrome.runtime.onStartup.addListener(async () => {
   try {
-    const { delayedTabs = [] } = await chrome.storage.local.get('delayedTabs');
-    const normalizedTabs = normalizeDelayedTabs(delayedTabs);
-    const now = Date.now();
-
-    const tabsToWake = normalizedTabs.filter(
-      (tab: DelayedTab) => tab.wakeTime <= now
-    );
-
-    const updatedTabs = await wakeTabsInternal(tabsToWake, normalizedTabs);
-
-    await chrome.storage.local.set({ delayedTabs: updatedTabs });
+    await rebuildContextMenus();
+    await reconcileDelayedTabs('startup');
+  } catch (error) {
+    console.error('Error catching up on startup:', error);
+  }
 
-    await Promise.all(
-      updatedTabs
-        .filter((tab: DelayedTab) => tab.wakeTime > now)
-        .map((tab: DelayedTab) =>
-          chrome.alarms.create(`delayed-tab-${tab.id}`, {
-            when: tab.wakeTime,
-          })
-        )
-    );
+  // Runs even when catch-up fails, so these tabs still open this session
+  try {
+    await wakeOnEvent('nextSession');
   } catch (error) {
-    // Handle errors during startup wake process
-    if (chrome.runtime.lastError) {
-      // Log runtime errors for debugging
-    }
+    console.error('Error waking tabs for the new session:', error);
   }
 });
 
-chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
-  if (request.action === 'wake-tabs' && Array.isArray(request.tabIds)) {
-    const wakeTabs = async (): Promise<void> => {
-      try {
-        const { delayedTabs = [] } = await chrome.storage.local.get('delayedTabs');
-        const normalizedTabs = normalizeDelayedTabs(delayedTabs);
-
-        const tabsToWake = normalizedTabs.filter((tab: DelayedTab) =>
-          request.tabIds.includes(tab.id)
-        );
-
-        const updatedTabs = await wakeTabsInternal(tabsToWake, normalizedTabs);
+chrome.notifications.onButtonClicked.addListener(
+  async (notificationId, buttonIndex) => {
+    if (notificationId === MISSED_NOTIFICATION_ID) {
+      await handleMissedSummaryButton(buttonIndex);
+    } else if (isWakeNotification(notificationId)) {
+      await handleWakeNotificationButton(notificationId, buttonIndex);
+    }
+  }
+);
+
+chrome.notifications.onClicked.addListener(async (notificationId) => {
+  if (notificationId === MISSED_NOTIFICATION_ID) {
+    await chrome.notifications.clear(notificationId);
+    await chrome.runtime.openOptionsPage();
+  } else if (notificationId === HELD_NOTIFICATION_ID) {
+    await chrome.notifications.clear(notificationId);
+  } else if (isWakeNotification(notificationId)) {
+    await handleWakeNotificationClick(notificationId);
+  }
+});
 
-        await chrome.storage.local.set({ delayedTabs: updatedTabs });
+chrome.notifications.onClosed.addListener(async (notificationId) => {
+  // However it closed, its buttons can no longer be used
+  if (isWakeNotification(notificationId)) {
+    await forgetWakeNotification(notificationId);
+  }
+});
 
-        sendResponse({ success: true });
-      } catch (error) {
-        sendResponse({ success: false, error });
-      }
-    };
+chrome.runtime.onMessage.addListener(
+  (request: BackgroundRequest, _sender, sendResponse) => {
+    if (typeof request?.action !== 'string') {
+      return undefined;
+    }
 
-    wakeTabs();
+    handleBackgroundRequest(request).then(sendResponse);
     return true; // keep the message channel open for async response
   }
-  return undefined;
-});
\ No newline at end of file
+);
+
+// Alarms and storage can drift apart after a crash or while the worker was
+// asleep, so every boot starts with a reconciliation pass
+reconcileDelayedTabs('boot').catch((error) =>
+  console.error('Error reconciling delayed tabs:', error)
+);
+// Coming back counts once the user was away as long as the settings say
+applyIdleDetectionInterval().catch((error) =>
+  console.error('Error setting the idle detection interval:', error)
+);
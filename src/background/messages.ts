@@ -0,0 +1,278 @@
+import {
+  BackgroundAction,
+  BackgroundRequest,
+  BackgroundResponse,
+  BackgroundResults,
+  DelayedTab,
+} from '@types';
+import calculateNextWakeTime from '@utils/calculateNextWakeTime';
+import generateUniqueTabId from '@utils/generateUniqueTabId';
+import {
+  sanitizeDelaySettings,
+  validateDelayedTab,
+  validateRecurrencePattern,
+  WAKE_TRIGGERS,
+} from '@utils/validation';
+import { getSystemTimeZone } from '@utils/zonedTime';
+
+import { createBackup, restoreBackup } from './backup';
+import getBrowserSessionId from './browserSession';
+import runMigrations from './migrations';
+import { loadDelayedTabs, mutateDelayedTabs } from './storage';
+import { requestSync } from './sync';
+import { getTabTimeZone } from './timeZone';
+import { getWorkSchedule, wakeTabsInternal } from './wake';
+
+type RequestOf<A extends BackgroundAction> = Extract<
+  BackgroundRequest,
+  { action: A }
+>;
+
+type Handlers = {
+  [A in BackgroundAction]: (
+    request: RequestOf<A>
+  ) => Promise<BackgroundResults[A]>;
+};
+
+// Every other action may change delayed tabs, so it is followed by a sync
+const READ_ONLY_ACTIONS: BackgroundAction[] = ['list', 'exportBackup'];
+
+const assertWakeTime = (wakeTime: unknown): number => {
+  if (typeof wakeTime !== 'number' || !Number.isFinite(wakeTime)) {
+    throw new Error('wakeTime must be a timestamp');
+  }
+  return wakeTime;
+};
+
+const handlers: Handlers = {
+  delay: async ({
+    targets,
+    wakeTime,
+    trigger,
+    recurrencePattern,
+    asWindow,
+    windowLayout,
+    ...rest
+  }) => {
+    if (trigger !== undefined && !WAKE_TRIGGERS.includes(trigger)) {
+      throw new Error(`Unknown trigger "${String(trigger)}"`);
+    }
+    const onEvent = trigger !== undefined && trigger !== 'time';
+    if (onEvent && (wakeTime !== undefined || recurrencePattern)) {
+      throw new Error('Event triggers take no wakeTime or recurrencePattern');
+    }
+
+    if (recurrencePattern) {
+      const patternError = validateRecurrencePattern(recurrencePattern);
+      if (patternError) {
+        throw new Error(patternError);
+      }
+    }
+
+    const createdAt = Date.now();
+    // Tabs waiting for an event keep their creation time as a sort key
+    const firstWakeTime = assertWakeTime(
+      wakeTime ??
+        (onEvent ? createdAt : null) ??
+        (recurrencePattern
+          ? calculateNextWakeTime(
+              recurrencePattern,
+              Date.now(),
+              undefined,
+              await getWorkSchedule()
+            )
+          : null)
+    );
+
+    let { timeZoneMode } = rest;
+    if (!timeZoneMode) {
+      const { delaySettings } = await chrome.storage.local.get('delaySettings');
+      timeZoneMode = sanitizeDelaySettings(delaySettings).timeZoneMode;
+    }
+
+    const windowSessionId = asWindow ? generateUniqueTabId() : undefined;
+    const sourceSessionId = await getBrowserSessionId();
+    const timeZone = getSystemTimeZone();
+
+    const newTabs: DelayedTab[] = targets.map((target) => ({
+      ...target,
+      id: generateUniqueTabId(),
+      createdAt,
+      wakeTime: firstWakeTime,
+      ...(onEvent && { trigger }),
+      windowSessionId,
+      ...(asWindow && windowLayout && { windowLayout }),
+      ...(target.sourceWindowId !== undefined && { sourceSessionId }),
+      timeZone,
+      timeZoneMode,
+      ...(recurrencePattern && {
+        isRecurring: true,
+        recurrencePattern: {
+          ...recurrencePattern,
+          startDate: recurrencePattern.startDate ?? firstWakeTime,
+        },
+      }),
+    }));
+
+    await mutateDelayedTabs((normalizedTabs) => [...normalizedTabs, ...newTabs]);
+
+    return newTabs;
+  },
+
+  reschedule: async ({ tabIds, wakeTime }) => {
+    assertWakeTime(wakeTime);
+
+    const rescheduledTabs: DelayedTab[] = [];
+    await mutateDelayedTabs((normalizedTabs) =>
+      normalizedTabs.map((tab) => {
+        if (!tabIds.includes(tab.id)) {
+          return tab;
+        }
+        const rescheduledTab = {
+          ...tab,
+          wakeTime,
+          trigger: undefined,
+          retryCount: undefined,
+          missedAt: undefined,
+        };
+        rescheduledTabs.push(rescheduledTab);
+        return rescheduledTab;
+      })
+    );
+
+    return rescheduledTabs;
+  },
+
+  remove: async ({ tabIds }) => {
+    let removedIds: string[] = [];
+    await mutateDelayedTabs((normalizedTabs) => {
+      removedIds = normalizedTabs
+        .filter((tab) => tabIds.includes(tab.id))
+        .map((tab) => tab.id);
+      return normalizedTabs.filter((tab) => !removedIds.includes(tab.id));
+    });
+
+    return removedIds;
+  },
+
+  list: async ({ query }) =>
+    [...(await loadDelayedTabs(query))].sort((a, b) => a.wakeTime - b.wakeTime),
+
+  wake: async ({ tabIds }) => {
+    let wokenIds: string[] = [];
+    await mutateDelayedTabs((normalizedTabs) => {
+      const tabsToWake = normalizedTabs.filter((tab) =>
+        tabIds.includes(tab.id)
+      );
+      wokenIds = tabsToWake.map((tab) => tab.id);
+      return wakeTabsInternal(tabsToWake, normalizedTabs);
+    });
+
+    return wokenIds;
+  },
+
+  import: async ({ tabs }) => {
+    for (const tab of tabs) {
+      const tabError = validateDelayedTab(tab);
+      if (tabError) {
+        throw new Error(tabError);
+      }
+    }
+
+    let importedTabs: DelayedTab[] = [];
+    await mutateDelayedTabs((normalizedTabs) => {
+      const knownIds = new Set(normalizedTabs.map((tab) => tab.id));
+      importedTabs = tabs.filter((tab) => {
+        if (knownIds.has(tab.id)) {
+          return false;
+        }
+        knownIds.add(tab.id);
+        return true;
+      });
+      return [...normalizedTabs, ...importedTabs];
+    });
+
+    return importedTabs;
+  },
+
+  exportBackup: () => createBackup(),
+
+  restoreBackup: ({ backup, mode }) => restoreBackup(backup, mode),
+
+  editRecurrence: async ({ tabId, recurrencePattern }) => {
+    const patternError = validateRecurrencePattern(recurrencePattern);
+    if (patternError) {
+      throw new Error(patternError);
+    }
+
+    const workSchedule = await getWorkSchedule();
+    let editedTab: DelayedTab | undefined;
+    await mutateDelayedTabs((normalizedTabs) => {
+      const tab = normalizedTabs.find((item) => item.id === tabId);
+      if (!tab) {
+        throw new Error(`Delayed tab ${tabId} not found`);
+      }
+
+      // The edited schedule starts over from its next occurrence
+      const pattern = { ...recurrencePattern, startDate: undefined };
+      const wakeTime = assertWakeTime(
+        calculateNextWakeTime(
+          pattern,
+          Date.now(),
+          getTabTimeZone({ ...tab, recurrencePattern: pattern }),
+          workSchedule
+        )
+      );
+      const updatedTab: DelayedTab = {
+        ...tab,
+        wakeTime,
+        missedAt: undefined,
+        isRecurring: true,
+        recurrencePattern: { ...pattern, startDate: wakeTime },
+      };
+      editedTab = updatedTab;
+
+      return normalizedTabs.map((item) =>
+        item.id === tabId ? updatedTab : item
+      );
+    });
+
+    return editedTab as DelayedTab;
+  },
+};
+
+/**
+ * Runs a request from the UI and wraps the outcome in a response envelope.
+ * All reads and writes of delayed tabs requested by the UI go through here.
+ */
+export default async function handleBackgroundRequest(
+  request: BackgroundRequest
+): Promise<BackgroundResponse> {
+  // Inherited keys like "constructor" or "toString" are not actions
+  const handler = Object.hasOwn(handlers, request.action)
+    ? (handlers[request.action] as (
+        request: BackgroundRequest
+      ) => Promise<unknown>)
+    : undefined;
+
+  if (!handler) {
+    return { success: false, error: `Unknown action "${request.action}"` };
+  }
+
+  try {
+    // Requests can arrive before the boot pass has moved old data over
+    await runMigrations();
+
+    const data = (await handler(request)) as BackgroundResults[BackgroundAction];
+    if (!READ_ONLY_ACTIONS.includes(request.action)) {
+      requestSync();
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
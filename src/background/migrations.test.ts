@@ -0,0 +1,134 @@
+import { DelayedTab } from '@types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import runMigrations, { SCHEMA_VERSION } from './migrations';
+import { syncWakeAlarm } from './scheduler';
+
+// In-memory stand-ins for storage.local, the alarms and IndexedDB
+let storageArea: Record<string, unknown> = {};
+let alarmNames: string[] = [];
+const database = new Map<string, DelayedTab>();
+
+vi.mock('./repository', () => ({
+  getAllDelayedTabRecords: async (): Promise<DelayedTab[]> => [
+    ...database.values(),
+  ],
+  queryDelayedTabRecords: async (): Promise<DelayedTab[]> => [
+    ...database.values(),
+  ],
+  writeDelayedTabRecords: async ({
+    put = [],
+    remove = [],
+  }: {
+    put?: DelayedTab[];
+    remove?: string[];
+  }): Promise<void> => {
+    remove.forEach((id) => database.delete(id));
+    put.forEach((tab) => database.set(tab.id, { ...tab }));
+  },
+}));
+
+vi.mock('./scheduler', () => ({
+  LEGACY_ALARM_PREFIX: 'delayed-tab-',
+  syncWakeAlarm: vi.fn(async () => 'created'),
+}));
+
+vi.stubGlobal('chrome', {
+  storage: {
+    local: {
+      get: async (keys: string | string[]) =>
+        Object.fromEntries(
+          [keys]
+            .flat()
+            .filter((key) => key in storageArea)
+            .map((key) => [key, globalThis.structuredClone(storageArea[key])])
+        ),
+      set: async (items: Record<string, unknown>) => {
+        storageArea = { ...storageArea, ...globalThis.structuredClone(items) };
+      },
+      remove: async (keys: string | string[]) => {
+        [keys].flat().forEach((key) => delete storageArea[key]);
+      },
+    },
+  },
+  alarms: {
+    getAll: async () => alarmNames.map((name) => ({ name })),
+    clear: async (name: string) => {
+      alarmNames = alarmNames.filter((alarmName) => alarmName !== name);
+      return true;
+    },
+  },
+});
+
+const validTab = {
+  id: 'valid',
+  url: 'https://example.com/valid',
+  createdAt: 1000,
+  wakeTime: 5000,
+};
+
+describe('runMigrations', () => {
+  beforeEach(() => {
+    database.clear();
+    alarmNames = ['delayed-tab-valid', 'delayed-tab-42', 'sync'];
+    vi.mocked(syncWakeAlarm).mockClear();
+
+    // A store last written before schema versions existed
+    storageArea = {
+      delayedTabs: [
+        validTab,
+        {
+          id: 42,
+          url: 'https://example.com/old',
+          createdAt: 0,
+          wakeTime: 7000,
+        },
+        { id: 'no-wake-time', url: 'https://example.com/broken', createdAt: 0 },
+        'not a tab',
+      ],
+      delaySettings: { laterToday: 'soon' },
+    };
+  });
+
+  it('moves valid tabs into the repository and quarantines the rest', async () => {
+    await expect(runMigrations()).resolves.toBe(SCHEMA_VERSION);
+
+    expect([...database.keys()].sort()).toEqual(['42', 'valid']);
+    expect(database.get('valid')).toEqual(validTab);
+
+    const quarantined = storageArea.quarantinedTabs as { record: unknown }[];
+    expect(quarantined.map(({ record }) => record)).toEqual([
+      { id: 'no-wake-time', url: 'https://example.com/broken', createdAt: 0 },
+      'not a tab',
+    ]);
+
+    expect(storageArea).not.toHaveProperty('delayedTabs');
+    expect(storageArea.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(storageArea.delaySettings).toMatchObject({ laterToday: 3 });
+    expect(alarmNames).toEqual(['sync']);
+    expect(syncWakeAlarm).toHaveBeenLastCalledWith([
+      validTab,
+      expect.objectContaining({ id: '42' }),
+    ]);
+  });
+
+  it('changes nothing when it runs again', async () => {
+    await runMigrations();
+    const migratedStorage = globalThis.structuredClone(storageArea);
+    const migratedTabs = globalThis.structuredClone([...database.entries()]);
+    vi.mocked(syncWakeAlarm).mockClear();
+
+    await expect(runMigrations()).resolves.toBe(SCHEMA_VERSION);
+
+    expect(storageArea).toEqual(migratedStorage);
+    expect([...database.entries()]).toEqual(migratedTabs);
+    expect(syncWakeAlarm).not.toHaveBeenCalled();
+  });
+
+  it('shares one run between concurrent callers', async () => {
+    await Promise.all([runMigrations(), runMigrations()]);
+
+    const quarantined = storageArea.quarantinedTabs as unknown[];
+    expect(quarantined).toHaveLength(2);
+  });
+});
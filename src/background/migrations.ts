@@ -0,0 +1,128 @@
+import { partitionDelayedTabs, sanitizeDelaySettings } from '@utils/validation';
+
+import { writeDelayedTabRecords } from './repository';
+import { LEGACY_ALARM_PREFIX, syncWakeAlarm } from './scheduler';
+import { quarantineRecords, withStorageLock } from './storage';
+
+type StorageSnapshot = Record<string, unknown>;
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (snapshot: StorageSnapshot) => Promise<StorageSnapshot>;
+}
+
+/**
+ * Ordered storage migrations. Each one runs once, when the stored
+ * schemaVersion is lower than its version. Append new steps at the end.
+ */
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Store delayed tab ids as strings',
+    migrate: async (snapshot) => ({
+      ...snapshot,
+      delayedTabs: Array.isArray(snapshot.delayedTabs)
+        ? snapshot.delayedTabs.map((tab) =>
+            typeof tab === 'object' && tab !== null && 'id' in tab
+              ? { ...tab, id: String(tab.id) }
+              : tab
+          )
+        : [],
+    }),
+  },
+  {
+    version: 2,
+    description: 'Quarantine invalid delayed tabs and repair delay settings',
+    migrate: async (snapshot) => {
+      const { valid, quarantined } = partitionDelayedTabs(
+        snapshot.delayedTabs
+      );
+      await quarantineRecords(quarantined);
+
+      return {
+        ...snapshot,
+        delayedTabs: valid,
+        ...(snapshot.delaySettings !== undefined && {
+          delaySettings: sanitizeDelaySettings(snapshot.delaySettings),
+        }),
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Replace per-tab alarms with the single wake alarm',
+    migrate: async (snapshot) => {
+      const alarms = await chrome.alarms.getAll();
+      await Promise.all(
+        alarms
+          .filter((alarm) => alarm.name.startsWith(LEGACY_ALARM_PREFIX))
+          .map((alarm) => chrome.alarms.clear(alarm.name))
+      );
+      await syncWakeAlarm(partitionDelayedTabs(snapshot.delayedTabs).valid);
+      return snapshot;
+    },
+  },
+  {
+    version: 4,
+    description: 'Move delayed tabs from storage.local into IndexedDB',
+    migrate: async ({ delayedTabs, ...snapshot }) => {
+      const { valid, quarantined } = partitionDelayedTabs(delayedTabs);
+      await quarantineRecords(quarantined);
+      await writeDelayedTabRecords({ put: valid });
+      await syncWakeAlarm(valid);
+      return snapshot;
+    },
+  },
+];
+
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+let pendingMigrations: Promise<number> | null = null;
+
+async function applyMigrations(): Promise<number> {
+  const snapshot: StorageSnapshot = await chrome.storage.local.get([
+    'schemaVersion',
+    'delayedTabs',
+    'delaySettings',
+  ]);
+  const currentVersion =
+    typeof snapshot.schemaVersion === 'number' ? snapshot.schemaVersion : 0;
+
+  if (currentVersion >= SCHEMA_VERSION) {
+    return currentVersion;
+  }
+
+  let migrated = snapshot;
+  for (const migration of migrations) {
+    if (migration.version > currentVersion) {
+      migrated = await migration.migrate(migrated);
+    }
+  }
+
+  // Keys a migration dropped from the snapshot are removed from storage
+  const removedKeys = Object.keys(snapshot).filter((key) => !(key in migrated));
+  if (removedKeys.length > 0) {
+    await chrome.storage.local.remove(removedKeys);
+  }
+
+  await chrome.storage.local.set({
+    ...migrated,
+    schemaVersion: SCHEMA_VERSION,
+  });
+
+  return SCHEMA_VERSION;
+}
+
+/**
+ * Brings stored data up to the current schema version and returns it.
+ * Concurrent callers share a single run.
+ */
+export default function runMigrations(): Promise<number> {
+  if (!pendingMigrations) {
+    pendingMigrations = withStorageLock(applyMigrations).finally(() => {
+      pendingMigrations = null;
+    });
+  }
+  return pendingMigrations;
+}
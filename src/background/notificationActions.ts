@@ -0,0 +1,116 @@
+import { DelayTarget } from '@types';
+import getWindowLayout from '@utils/getWindowLayout';
+import toDelayTargets from '@utils/toDelayTargets';
+
+import handleBackgroundRequest from './messages';
+import { formatWakeTime, resolvePresetWakeTime } from './quickDelay';
+import {
+  SNOOZE_HOUR_BUTTON,
+  takeWakeNotification,
+  WakeNotificationEntry,
+} from './wakeNotifications';
+
+const SNOOZE_HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Woken tabs that are still open, as the user left them
+ */
+async function getOpenTabs(
+  entry: WakeNotificationEntry
+): Promise<chrome.tabs.Tab[]> {
+  const tabs = await Promise.all(
+    entry.tabIds.map((tabId) => chrome.tabs.get(tabId).catch(() => undefined))
+  );
+  return tabs.filter((tab): tab is chrome.tabs.Tab => Boolean(tab));
+}
+
+/**
+ * Delays the tabs a wake notification opened once more and closes them.
+ * Tabs the user already closed are delayed again from what was stored.
+ */
+export async function snoozeWokenTabs(
+  entry: WakeNotificationEntry,
+  wakeTime: number
+): Promise<void> {
+  const openTabs = await getOpenTabs(entry);
+  const targets: DelayTarget[] =
+    openTabs.length > 0 ? await toDelayTargets(openTabs) : entry.targets;
+
+  const response = await handleBackgroundRequest({
+    action: 'delay',
+    targets,
+    wakeTime,
+    asWindow: entry.asWindow,
+    windowLayout:
+      entry.asWindow && entry.windowId !== undefined
+        ? await getWindowLayout(entry.windowId)
+        : undefined,
+  });
+
+  if (!response.success) {
+    await chrome.notifications.create({
+      type: 'basic',
+      iconUrl: 'icons/icon128.png',
+      title: 'Could Not Snooze',
+      message: response.error,
+    });
+    return;
+  }
+
+  if (openTabs.length > 0) {
+    await chrome.tabs.remove(openTabs.map((tab) => tab.id as number));
+  }
+
+  await chrome.notifications.create({
+    type: 'basic',
+    iconUrl: 'icons/icon128.png',
+    title: targets.length === 1 ? 'Tab Snoozed' : 'Tabs Snoozed',
+    message: `${
+      targets.length === 1
+        ? `"${targets[0].title ?? targets[0].url}"`
+        : `${targets.length} tabs`
+    } will wake ${formatWakeTime(wakeTime)}.`,
+  });
+}
+
+export async function handleWakeNotificationButton(
+  notificationId: string,
+  buttonIndex: number
+): Promise<void> {
+  const entry = await takeWakeNotification(notificationId);
+  if (!entry) {
+    return;
+  }
+
+  const wakeTime =
+    buttonIndex === SNOOZE_HOUR_BUTTON
+      ? Date.now() + SNOOZE_HOUR_MS
+      : await resolvePresetWakeTime('tomorrow');
+
+  await snoozeWokenTabs(entry, wakeTime);
+}
+
+/**
+ * Brings the woken tab, or the window it opened in, to the front
+ */
+export async function handleWakeNotificationClick(
+  notificationId: string
+): Promise<void> {
+  const entry = await takeWakeNotification(notificationId);
+  if (!entry) {
+    return;
+  }
+
+  const [firstTab] = await getOpenTabs(entry);
+  const windowId = firstTab?.windowId ?? entry.windowId;
+
+  if (firstTab?.id !== undefined && !entry.asWindow) {
+    await chrome.tabs.update(firstTab.id, { active: true });
+  }
+
+  if (windowId !== undefined) {
+    await chrome.windows
+      .update(windowId, { focused: true })
+      .catch(() => undefined);
+  }
+}
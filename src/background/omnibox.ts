@@ -0,0 +1,89 @@
+import { DelaySettings } from '@types';
+import parseDelayInput, {
+  getMatchingPresetPhrases,
+} from '@utils/parseDelayInput';
+import { sanitizeDelaySettings } from '@utils/validation';
+
+import { delayTabsUntil, formatWakeTime } from './quickDelay';
+
+const HELP_TEXT =
+  'Delay this tab: try "tomorrow 9am", "in 3h", "fri" or "next week"';
+
+// Suggestion descriptions are XML, so user text must be escaped
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const loadSettings = async (): Promise<DelaySettings> => {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  return sanitizeDelaySettings(delaySettings);
+};
+
+export async function handleOmniboxInputChanged(
+  text: string,
+  suggest: (suggestions: chrome.omnibox.SuggestResult[]) => void
+): Promise<void> {
+  const settings = await loadSettings();
+  const parsed = parseDelayInput(
+    text,
+    settings,
+    new Date(),
+    chrome.i18n.getUILanguage()
+  );
+
+  chrome.omnibox.setDefaultSuggestion({
+    description: parsed
+      ? `Delay this tab until <match>${escapeXml(
+          formatWakeTime(parsed.wakeTime)
+        )}</match>`
+      : escapeXml(HELP_TEXT),
+  });
+
+  // Presets the user may be typing, each with the time it resolves to
+  suggest(
+    getMatchingPresetPhrases(text).flatMap((phrase) => {
+      const preset = parseDelayInput(phrase, settings);
+      return preset
+        ? [
+            {
+              content: phrase,
+              description: `<match>${escapeXml(phrase)}</match> <dim>${escapeXml(
+                formatWakeTime(preset.wakeTime)
+              )}</dim>`,
+            },
+          ]
+        : [];
+    })
+  );
+}
+
+export async function handleOmniboxInputEntered(text: string): Promise<void> {
+  const parsed = parseDelayInput(
+    text,
+    await loadSettings(),
+    new Date(),
+    chrome.i18n.getUILanguage()
+  );
+
+  if (!parsed) {
+    await chrome.notifications.create({
+      type: 'basic',
+      iconUrl: 'icons/icon128.png',
+      title: 'Could Not Delay',
+      message: `"${text}" is not a time Delayo understands.`,
+    });
+    return;
+  }
+
+  const [activeTab] = await chrome.tabs.query({
+    active: true,
+    currentWindow: true,
+  });
+  if (activeTab) {
+    await delayTabsUntil([activeTab], parsed.wakeTime);
+  }
+}
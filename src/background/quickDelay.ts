@@ -0,0 +1,127 @@
+import { DelayPresetId, DelayTarget } from '@types';
+import calculatePresetWakeTime from '@utils/calculatePresetWakeTime';
+import { LINK_TARGET_KEY, POPUP_ROUTE_KEY } from '@utils/popupHandoff';
+import toDelayTargets from '@utils/toDelayTargets';
+import { sanitizeDelaySettings } from '@utils/validation';
+
+import handleBackgroundRequest from './messages';
+
+export const formatWakeTime = (wakeTime: number): string =>
+  new Date(wakeTime).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Opens the popup on a given route, e.g. straight into the custom delay form,
+ * optionally handing it a link to delay
+ */
+export async function openPopupAt(
+  route: string,
+  linkTarget?: DelayTarget
+): Promise<void> {
+  await chrome.storage.session.set({
+    [POPUP_ROUTE_KEY]: route,
+    ...(linkTarget && { [LINK_TARGET_KEY]: linkTarget }),
+  });
+  await chrome.action.openPopup();
+}
+
+export async function resolvePresetWakeTime(
+  presetId: DelayPresetId
+): Promise<number> {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  return calculatePresetWakeTime(
+    presetId,
+    sanitizeDelaySettings(delaySettings)
+  );
+}
+
+/**
+ * Schedules the targets and reports whether it worked, telling the user why
+ * when it did not
+ */
+async function scheduleTargets(
+  targets: DelayTarget[],
+  wakeTime: number
+): Promise<boolean> {
+  const response = await handleBackgroundRequest({
+    action: 'delay',
+    targets,
+    wakeTime,
+  });
+
+  if (!response.success) {
+    await chrome.notifications.create({
+      type: 'basic',
+      iconUrl: 'icons/icon128.png',
+      title: 'Could Not Delay',
+      message: response.error,
+    });
+  }
+
+  return response.success;
+}
+
+/**
+ * Delays the browser tabs until the given time, closes them and confirms
+ * with a notification. Used by keyboard shortcuts, menus and the omnibox.
+ */
+export async function delayTabsUntil(
+  tabs: chrome.tabs.Tab[],
+  wakeTime: number
+): Promise<void> {
+  const browserTabs = tabs.filter((tab) => tab.id);
+  if (
+    browserTabs.length === 0 ||
+    !(await scheduleTargets(await toDelayTargets(browserTabs), wakeTime))
+  ) {
+    return;
+  }
+
+  await chrome.tabs.remove(browserTabs.map((tab) => tab.id as number));
+
+  await chrome.notifications.create({
+    type: 'basic',
+    iconUrl: browserTabs[0].favIconUrl || 'icons/icon128.png',
+    title: browserTabs.length === 1 ? 'Tab Delayed' : 'Tabs Delayed',
+    message: `${
+      browserTabs.length === 1
+        ? `"${browserTabs[0].title}"`
+        : `${browserTabs.length} tabs`
+    } will wake ${formatWakeTime(wakeTime)}.`,
+  });
+}
+
+export async function delayTabsWithPreset(
+  tabs: chrome.tabs.Tab[],
+  presetId: DelayPresetId
+): Promise<void> {
+  await delayTabsUntil(tabs, await resolvePresetWakeTime(presetId));
+}
+
+/**
+ * Schedules a link that was never opened, so it opens for the first time
+ * when it wakes
+ */
+export async function delayLinkWithPreset(
+  link: DelayTarget,
+  presetId: DelayPresetId
+): Promise<void> {
+  const wakeTime = await resolvePresetWakeTime(presetId);
+  if (!(await scheduleTargets([link], wakeTime))) {
+    return;
+  }
+
+  await chrome.notifications.create({
+    type: 'basic',
+    iconUrl: 'icons/icon128.png',
+    title: 'Link Delayed',
+    message: `"${link.title ?? link.url}" will open ${formatWakeTime(
+      wakeTime
+    )}.`,
+  });
+}
@@ -0,0 +1,122 @@
+import { catchUpMissedTabs } from './catchUp';
+import runMigrations from './migrations';
+import { getDueTabs, LEGACY_ALARM_PREFIX, syncWakeAlarm } from './scheduler';
+import { mutateDelayedTabs } from './storage';
+import { scheduleSync, syncDelayedTabs } from './sync';
+import {
+  handleTimeZoneChange,
+  scheduleTimeZoneChecks,
+  TIME_ZONE_ALARM,
+} from './timeZone';
+import { holdDueTabs } from './wakeHold';
+
+// Tabs that came due this recently are left to the wake alarm, which may be
+// the very event that woke the worker
+const ALARM_GRACE_MS = 60 * 1000;
+
+export type ReconciliationReason = 'boot' | 'startup' | 'install' | 'update';
+
+export interface ReconciliationReport {
+  reason: ReconciliationReason;
+  checkedAt: number;
+  createdAlarms: number;
+  updatedAlarms: number;
+  clearedAlarms: number;
+  wokenTabs: number;
+}
+
+let pendingReconciliation: Promise<ReconciliationReport> | null = null;
+
+async function runReconciliation(
+  reason: ReconciliationReason
+): Promise<ReconciliationReport> {
+  // Old records must be migrated before they are validated
+  await runMigrations();
+  await handleTimeZoneChange();
+  // Tabs another device woke while this one was away must not wake again
+  await syncDelayedTabs();
+  await scheduleSync();
+
+  const alarms = await chrome.alarms.getAll();
+  const now = Date.now();
+
+  const report: ReconciliationReport = {
+    reason,
+    checkedAt: now,
+    createdAlarms: 0,
+    updatedAlarms: 0,
+    clearedAlarms: 0,
+    wokenTabs: 0,
+  };
+
+  if (!alarms.some((alarm) => alarm.name === TIME_ZONE_ALARM)) {
+    scheduleTimeZoneChecks();
+  }
+
+  await mutateDelayedTabs(async (normalizedTabs) => {
+    // Overdue tabs stay put during quiet hours or fullscreen, like alarm wakes
+    const overdueTabs = getDueTabs(normalizedTabs, now - ALARM_GRACE_MS);
+    const caughtUpTabs =
+      overdueTabs.length > 0 && (await holdDueTabs(overdueTabs, now))
+        ? normalizedTabs
+        : await catchUpMissedTabs(normalizedTabs, now - ALARM_GRACE_MS);
+    const caughtUpIds = new Set(caughtUpTabs.map((tab) => tab.id));
+    report.wokenTabs = normalizedTabs.filter(
+      (tab) => !caughtUpIds.has(tab.id)
+    ).length;
+
+    const legacyAlarms = alarms.filter((alarm) =>
+      alarm.name.startsWith(LEGACY_ALARM_PREFIX)
+    );
+    await Promise.all(
+      legacyAlarms.map((alarm) => chrome.alarms.clear(alarm.name))
+    );
+    report.clearedAlarms += legacyAlarms.length;
+
+    switch (await syncWakeAlarm(caughtUpTabs)) {
+      case 'created':
+        report.createdAlarms += 1;
+        break;
+      case 'updated':
+        report.updatedAlarms += 1;
+        break;
+      case 'cleared':
+        report.clearedAlarms += 1;
+        break;
+      default:
+        break;
+    }
+
+    return caughtUpTabs;
+  });
+
+  await chrome.storage.local.set({ lastReconciliation: report });
+
+  if (
+    report.createdAlarms ||
+    report.updatedAlarms ||
+    report.clearedAlarms ||
+    report.wokenTabs
+  ) {
+    console.info('Delayo reconciled delayed tabs:', report);
+  }
+
+  return report;
+}
+
+/**
+ * Brings alarms back in line with the stored delayed tabs: points the wake
+ * alarm at the earliest pending wake, clears leftover per-tab alarms and
+ * wakes tabs that are already overdue.
+ * Concurrent calls share one pass so overdue tabs never wake twice.
+ */
+export default function reconcileDelayedTabs(
+  reason: ReconciliationReason
+): Promise<ReconciliationReport> {
+  if (!pendingReconciliation) {
+    pendingReconciliation = runReconciliation(reason).finally(() => {
+      pendingReconciliation = null;
+    });
+  }
+  return pendingReconciliation;
+}
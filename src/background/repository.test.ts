@@ -0,0 +1,94 @@
+import 'fake-indexeddb/auto';
+
+import { DelayedTab } from '@types';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import {
+  getAllDelayedTabRecords,
+  queryDelayedTabRecords,
+  writeDelayedTabRecords,
+} from './repository';
+
+const makeTab = (
+  id: string,
+  url: string,
+  wakeTime: number,
+  extra: Partial<DelayedTab> = {}
+): DelayedTab => ({ id, url, createdAt: 0, wakeTime, ...extra });
+
+const ids = (records: unknown[]): string[] =>
+  records.map((record) => (record as DelayedTab).id);
+
+describe('queryDelayedTabRecords', () => {
+  beforeAll(async () => {
+    await writeDelayedTabRecords({
+      put: [
+        makeTab('docs-late', 'https://docs.example.com/a', 3000),
+        makeTab('news-early', 'https://news.example.org/b', 1000),
+        makeTab('docs-early', 'https://docs.example.com/c', 2000),
+        makeTab('docs-future', 'https://docs.example.com/d', 9000),
+        makeTab('event', 'https://docs.example.com/e', 500, {
+          trigger: 'nextSession',
+        }),
+        makeTab('removed', 'https://docs.example.com/f', 1500),
+      ],
+    });
+    await writeDelayedTabRecords({ remove: ['removed'] });
+  });
+
+  it('returns every record ordered by wake time without a query', async () => {
+    expect(ids(await queryDelayedTabRecords())).toEqual([
+      'event',
+      'news-early',
+      'docs-early',
+      'docs-late',
+      'docs-future',
+    ]);
+  });
+
+  it('returns only timed tabs due by dueBefore', async () => {
+    expect(ids(await queryDelayedTabRecords({ dueBefore: 3000 }))).toEqual([
+      'news-early',
+      'docs-early',
+      'docs-late',
+    ]);
+  });
+
+  it('returns only tabs from one host', async () => {
+    expect(
+      ids(await queryDelayedTabRecords({ urlHost: 'docs.example.com' }))
+    ).toEqual(['event', 'docs-early', 'docs-late', 'docs-future']);
+  });
+
+  it('combines filters and applies the limit after them', async () => {
+    expect(
+      ids(
+        await queryDelayedTabRecords({
+          urlHost: 'docs.example.com',
+          dueBefore: 5000,
+          limit: 1,
+        })
+      )
+    ).toEqual(['docs-early']);
+    expect(
+      ids(await queryDelayedTabRecords({ dueBefore: 5000, limit: 2 }))
+    ).toEqual(['news-early', 'docs-early']);
+    expect(ids(await queryDelayedTabRecords({ limit: 2 }))).toEqual([
+      'event',
+      'news-early',
+    ]);
+  });
+
+  it('leaves the stored host out of the records it returns', async () => {
+    const [record] = await queryDelayedTabRecords({ limit: 1 });
+
+    expect(record).not.toHaveProperty('urlHost');
+    expect(ids(await getAllDelayedTabRecords()).sort()).toEqual([
+      'docs-early',
+      'docs-future',
+      'docs-late',
+      'event',
+      'news-early',
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { DelayedTab, DelayedTabQuery } from '@types';
+import getUrlHost from '@utils/getUrlHost';
+import isTimedTab from '@utils/isTimedTab';
+
+const DATABASE_NAME = 'delayo';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'delayedTabs';
+
+// Records carry their URL host so they can be looked up by site
+type StoredDelayedTab = DelayedTab & { urlHost?: string };
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = globalThis.indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: 'id',
+        });
+        store.createIndex('wakeTime', 'wakeTime');
+        store.createIndex('windowSessionId', 'windowSessionId');
+        store.createIndex('urlHost', 'urlHost');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+const toStoredRecord = (tab: DelayedTab): StoredDelayedTab => ({
+  ...tab,
+  urlHost: getUrlHost(tab.url),
+});
+
+const fromStoredRecord = (record: unknown): unknown => {
+  if (typeof record !== 'object' || record === null) {
+    return record;
+  }
+  const tab = { ...(record as StoredDelayedTab) };
+  delete tab.urlHost;
+  return tab;
+};
+
+/**
+ * Reads raw records, ordered by wake time. Callers validate them.
+ */
+export async function queryDelayedTabRecords(
+  query: DelayedTabQuery = {}
+): Promise<unknown[]> {
+  const database = await openDatabase();
+  const store = database
+    .transaction(STORE_NAME, 'readonly')
+    .objectStore(STORE_NAME);
+
+  // The most selective filter picks the index; the rest apply in memory
+  let records: StoredDelayedTab[];
+  if (query.windowSessionId !== undefined) {
+    records = await requestToPromise(
+      store.index('windowSessionId').getAll(query.windowSessionId)
+    );
+  } else if (query.urlHost !== undefined) {
+    records = await requestToPromise(
+      store.index('urlHost').getAll(query.urlHost)
+    );
+  } else {
+    const range =
+      query.dueBefore !== undefined
+        ? IDBKeyRange.upperBound(query.dueBefore)
+        : undefined;
+    // Tabs waiting for an event fall inside the range too, so a due query
+    // is limited only once they are filtered out
+    records = await requestToPromise(
+      store
+        .index('wakeTime')
+        .getAll(range, range === undefined ? query.limit : undefined)
+    );
+  }
+
+  const matchingRecords = records
+    .filter(
+      (record) =>
+        (query.dueBefore === undefined ||
+          (isTimedTab(record) && record.wakeTime <= query.dueBefore)) &&
+        (query.urlHost === undefined || record.urlHost === query.urlHost)
+    )
+    .sort((a, b) => a.wakeTime - b.wakeTime)
+    .slice(0, query.limit);
+
+  return matchingRecords.map(fromStoredRecord);
+}
+
+/**
+ * Returns every record, including ones whose wake time is missing and so
+ * are absent from the wakeTime index
+ */
+export async function getAllDelayedTabRecords(): Promise<unknown[]> {
+  const database = await openDatabase();
+  const records = await requestToPromise(
+    database
+      .transaction(STORE_NAME, 'readonly')
+      .objectStore(STORE_NAME)
+      .getAll()
+  );
+  return records.map(fromStoredRecord);
+}
+
+/**
+ * Stores and deletes delayed tabs in one transaction
+ */
+export async function writeDelayedTabRecords({
+  put = [],
+  remove = [],
+}: {
+  put?: DelayedTab[];
+  remove?: string[];
+}): Promise<void> {
+  if (put.length === 0 && remove.length === 0) {
+    return;
+  }
+
+  const database = await openDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+
+  remove.forEach((id) => store.delete(id));
+  put.forEach((tab) => store.put(toStoredRecord(tab)));
+
+  await transactionToPromise(transaction);
+}
@@ -0,0 +1,164 @@
+import { DelayedTab } from '@types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  getDueTabs,
+  getNextWakeTime,
+  ONLINE_CHECK_ALARM,
+  syncWakeAlarm,
+  WAKE_ALARM,
+} from './scheduler';
+import { getActiveWakeHold } from './wakeHold';
+
+// An in-memory stand-in for chrome.alarms
+const alarms = new Map<string, chrome.alarms.Alarm>();
+
+vi.mock('./wakeHold', () => ({
+  getActiveWakeHold: vi.fn(async () => null),
+}));
+
+vi.stubGlobal('chrome', {
+  alarms: {
+    get: async (name: string) => alarms.get(name),
+    create: vi.fn(async (name: string, info: chrome.alarms.AlarmCreateInfo) => {
+      alarms.set(name, {
+        name,
+        scheduledTime: info.when ?? 0,
+        periodInMinutes: info.periodInMinutes,
+      });
+    }),
+    clear: async (name: string) => alarms.delete(name),
+  },
+});
+
+const makeTab = (
+  id: string,
+  wakeTime: number,
+  extra: Partial<DelayedTab> = {}
+): DelayedTab => ({
+  id,
+  url: `https://example.com/${id}`,
+  createdAt: 0,
+  wakeTime,
+  ...extra,
+});
+
+describe('getDueTabs', () => {
+  it('returns timed tabs due by now, including ones due exactly now', () => {
+    const tabs = [
+      makeTab('past', 1000),
+      makeTab('now', 2000),
+      makeTab('future', 3000),
+    ];
+
+    expect(getDueTabs(tabs, 2000).map((tab) => tab.id)).toEqual([
+      'past',
+      'now',
+    ]);
+  });
+
+  it('skips tabs waiting for an event or for a catch-up choice', () => {
+    const tabs = [
+      makeTab('event', 1000, { trigger: 'nextSession' }),
+      makeTab('missed', 1000, { missedAt: 1500 }),
+      makeTab('timed', 1000, { trigger: 'time' }),
+    ];
+
+    expect(getDueTabs(tabs, 2000).map((tab) => tab.id)).toEqual(['timed']);
+  });
+
+  it('returns a whole backlog of thousands of tabs in one pass', () => {
+    const now = 10_000_000;
+    const tabs = Array.from({ length: 5000 }, (_, index) =>
+      makeTab(`tab-${index}`, now - index * 1000)
+    );
+    tabs.push(makeTab('later', now + 1));
+
+    const dueTabs = getDueTabs(tabs, now);
+
+    expect(dueTabs).toHaveLength(5000);
+    expect(dueTabs.some((tab) => tab.id === 'later')).toBe(false);
+  });
+});
+
+describe('getNextWakeTime', () => {
+  it('is the earliest wake among timed tabs', () => {
+    expect(
+      getNextWakeTime([
+        makeTab('a', 5000),
+        makeTab('b', 1000, { trigger: 'idleReturn' }),
+        makeTab('c', 2000, { missedAt: 1 }),
+        makeTab('d', 3000),
+      ])
+    ).toBe(3000);
+  });
+
+  it('is null when nothing waits on a time', () => {
+    expect(getNextWakeTime([])).toBeNull();
+    expect(
+      getNextWakeTime([makeTab('a', 1000, { trigger: 'online' })])
+    ).toBeNull();
+  });
+});
+
+describe('syncWakeAlarm', () => {
+  beforeEach(() => {
+    alarms.clear();
+    vi.mocked(chrome.alarms.create).mockClear();
+    vi.mocked(getActiveWakeHold).mockResolvedValue(null);
+  });
+
+  it('creates, moves and clears the one wake alarm', async () => {
+    await expect(syncWakeAlarm([makeTab('a', 5000)])).resolves.toBe('created');
+    expect(alarms.get(WAKE_ALARM)?.scheduledTime).toBe(5000);
+
+    await expect(
+      syncWakeAlarm([makeTab('a', 5000), makeTab('b', 4000)])
+    ).resolves.toBe('updated');
+    expect(alarms.get(WAKE_ALARM)?.scheduledTime).toBe(4000);
+
+    await expect(
+      syncWakeAlarm([makeTab('a', 5000), makeTab('b', 4000)])
+    ).resolves.toBe('unchanged');
+
+    await expect(syncWakeAlarm([])).resolves.toBe('cleared');
+    expect(alarms.has(WAKE_ALARM)).toBe(false);
+
+    await expect(syncWakeAlarm([])).resolves.toBe('unchanged');
+  });
+
+  it('points at the earliest of a backlog of thousands with one alarm', async () => {
+    const tabs = Array.from({ length: 5000 }, (_, index) =>
+      makeTab(`tab-${index}`, 1_000_000 - index)
+    );
+
+    await syncWakeAlarm(tabs);
+
+    expect(chrome.alarms.create).toHaveBeenCalledTimes(1);
+    expect([...alarms.keys()]).toEqual([WAKE_ALARM]);
+    expect(alarms.get(WAKE_ALARM)?.scheduledTime).toBe(1_000_000 - 4999);
+  });
+
+  it('waits for an active wake hold to end', async () => {
+    vi.mocked(getActiveWakeHold).mockResolvedValue({
+      until: 8000,
+      reason: 'quietHours',
+      heldCount: 1,
+    });
+
+    await syncWakeAlarm([makeTab('a', 5000)]);
+
+    expect(alarms.get(WAKE_ALARM)?.scheduledTime).toBe(8000);
+  });
+
+  it('runs the online check only while tabs wait to be back online', async () => {
+    await syncWakeAlarm([makeTab('a', 0, { trigger: 'online' })]);
+
+    expect(alarms.get(ONLINE_CHECK_ALARM)?.periodInMinutes).toBe(1);
+    expect(alarms.has(WAKE_ALARM)).toBe(false);
+
+    await syncWakeAlarm([]);
+
+    expect(alarms.has(ONLINE_CHECK_ALARM)).toBe(false);
+  });
+});
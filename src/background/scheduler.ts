@@ -0,0 +1,85 @@
+import { DelayedTab } from '@types';
+import isTimedTab from '@utils/isTimedTab';
+
+import { getActiveWakeHold } from './wakeHold';
+
+// One alarm covers every delayed tab: it always points at the earliest
+// pending wake and is moved whenever the list changes
+export const WAKE_ALARM = 'next-wake';
+// Per-tab alarms used before the single scheduler, cleared on sight
+export const LEGACY_ALARM_PREFIX = 'delayed-tab-';
+// Repeats while tabs wait to be back online, as the worker may sleep
+// through the browser reconnecting
+export const ONLINE_CHECK_ALARM = 'online-check';
+
+export type WakeAlarmChange = 'created' | 'updated' | 'cleared' | 'unchanged';
+
+// Tabs held back for the user's catch-up choice never fire the alarm, nor
+// do tabs waiting for an event
+const isPending = (tab: DelayedTab): boolean =>
+  !tab.missedAt && isTimedTab(tab);
+
+export function getNextWakeTime(tabs: DelayedTab[]): number | null {
+  let nextWakeTime: number | null = null;
+
+  for (const tab of tabs) {
+    if (
+      isPending(tab) &&
+      (nextWakeTime === null || tab.wakeTime < nextWakeTime)
+    ) {
+      nextWakeTime = tab.wakeTime;
+    }
+  }
+
+  return nextWakeTime;
+}
+
+export const getDueTabs = (
+  tabs: DelayedTab[],
+  now: number = Date.now()
+): DelayedTab[] => tabs.filter((tab) => isPending(tab) && tab.wakeTime <= now);
+
+async function syncOnlineCheckAlarm(tabs: DelayedTab[]): Promise<void> {
+  const waiting = tabs.some((tab) => tab.trigger === 'online');
+  const alarm = await chrome.alarms.get(ONLINE_CHECK_ALARM);
+
+  if (waiting && !alarm) {
+    await chrome.alarms.create(ONLINE_CHECK_ALARM, { periodInMinutes: 1 });
+  } else if (!waiting && alarm) {
+    await chrome.alarms.clear(ONLINE_CHECK_ALARM);
+  }
+}
+
+/**
+ * Points the wake alarm at the earliest pending wake time, or clears it
+ * when nothing is left to wake. While wakes are held it waits for the hold
+ * to end instead. The online check alarm runs only while it has tabs to
+ * check.
+ */
+export async function syncWakeAlarm(
+  tabs: DelayedTab[]
+): Promise<WakeAlarmChange> {
+  await syncOnlineCheckAlarm(tabs);
+  const earliestWakeTime = getNextWakeTime(tabs);
+  const hold = await getActiveWakeHold();
+  const nextWakeTime =
+    earliestWakeTime !== null && hold
+      ? Math.max(earliestWakeTime, hold.until)
+      : earliestWakeTime;
+  const alarm = await chrome.alarms.get(WAKE_ALARM);
+
+  if (nextWakeTime === null) {
+    if (!alarm) {
+      return 'unchanged';
+    }
+    await chrome.alarms.clear(WAKE_ALARM);
+    return 'cleared';
+  }
+
+  if (alarm?.scheduledTime === nextWakeTime) {
+    return 'unchanged';
+  }
+
+  await chrome.alarms.create(WAKE_ALARM, { when: nextWakeTime });
+  return alarm ? 'updated' : 'created';
+}
@@ -0,0 +1,138 @@
+import { DelayedTab } from '@types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { loadDelayedTabs, mutateDelayedTabs } from './storage';
+
+// An in-memory stand-in for IndexedDB. Every read and write takes a few
+// turns of the event loop, like the real transactions do.
+const database = new Map<string, DelayedTab>();
+
+const settle = (ms = 5): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+vi.mock('./repository', () => ({
+  getAllDelayedTabRecords: async (): Promise<unknown[]> => {
+    const records = [...database.values()].map((tab) => ({ ...tab }));
+    await settle();
+    return records;
+  },
+  queryDelayedTabRecords: async (): Promise<unknown[]> => {
+    const records = [...database.values()].map((tab) => ({ ...tab }));
+    await settle();
+    return records;
+  },
+  writeDelayedTabRecords: async ({
+    put = [],
+    remove = [],
+  }: {
+    put?: DelayedTab[];
+    remove?: string[];
+  }): Promise<void> => {
+    await settle();
+    remove.forEach((id) => database.delete(id));
+    put.forEach((tab) => database.set(tab.id, { ...tab }));
+  },
+}));
+
+vi.mock('./scheduler', () => ({
+  syncWakeAlarm: vi.fn(async () => 'unchanged'),
+}));
+
+const makeTab = (id: string, wakeTime: number): DelayedTab => ({
+  id,
+  url: `https://example.com/${id}`,
+  createdAt: 0,
+  wakeTime,
+});
+
+describe('mutateDelayedTabs', () => {
+  beforeEach(() => {
+    database.clear();
+    database.set('due', makeTab('due', 1000));
+    database.set('later', makeTab('later', 5000));
+  });
+
+  it('keeps a popup delay made while an alarm wake is running', async () => {
+    const now = 2000;
+
+    // The alarm wakes the due tab, opening it takes a while
+    const alarmWake = mutateDelayedTabs(async (tabs) => {
+      await settle(20);
+      return tabs.filter((tab) => tab.wakeTime > now);
+    });
+    // The popup delays a new tab at the same moment
+    const popupDelay = mutateDelayedTabs((tabs) => [
+      ...tabs,
+      makeTab('new', 9000),
+    ]);
+
+    await Promise.all([alarmWake, popupDelay]);
+
+    expect([...database.keys()].sort()).toEqual(['later', 'new']);
+  });
+
+  it('does not bring back a tab the alarm woke while the popup edited it', async () => {
+    const alarmWake = mutateDelayedTabs((tabs) =>
+      tabs.filter((tab) => tab.id !== 'due')
+    );
+    // The popup's edit takes longer and would land after the wake
+    const popupReschedule = mutateDelayedTabs(async (tabs) => {
+      await settle(20);
+      return tabs.map((tab) =>
+        tab.id === 'due' ? { ...tab, wakeTime: 8000 } : tab
+      );
+    });
+
+    await Promise.all([alarmWake, popupReschedule]);
+
+    expect([...database.keys()]).toEqual(['later']);
+  });
+
+  it('lets each mutation see the one queued before it', async () => {
+    const seen: string[][] = [];
+
+    await Promise.all(
+      ['a', 'b', 'c'].map((id) =>
+        mutateDelayedTabs((tabs) => {
+          seen.push(tabs.map((tab) => tab.id).sort());
+          return [...tabs, makeTab(id, 3000)];
+        })
+      )
+    );
+
+    expect(seen).toEqual([
+      ['due', 'later'],
+      ['a', 'due', 'later'],
+      ['a', 'b', 'due', 'later'],
+    ]);
+    expect(database.size).toBe(5);
+  });
+
+  it('writes nothing for a failed mutation and keeps running later ones', async () => {
+    const failed = mutateDelayedTabs(async () => {
+      await settle();
+      throw new Error('wake failed');
+    });
+    const next = mutateDelayedTabs((tabs) => [...tabs, makeTab('new', 9000)]);
+
+    await expect(failed).rejects.toThrow('wake failed');
+    await next;
+
+    expect([...database.keys()].sort()).toEqual(['due', 'later', 'new']);
+  });
+
+  it('makes reads wait for pending mutations', async () => {
+    const mutation = mutateDelayedTabs(async (tabs) => {
+      await settle(20);
+      return [...tabs, makeTab('new', 9000)];
+    });
+    const read = loadDelayedTabs();
+
+    await mutation;
+    const tabs = await read;
+
+    expect(tabs.map((tab) => tab.id).sort()).toEqual(['due', 'later', 'new']);
+  });
+});
@@ -0,0 +1,104 @@
+import { DelayedTab, DelayedTabQuery, QuarantinedRecord } from '@types';
+import { partitionDelayedTabs } from '@utils/validation';
+
+import {
+  getAllDelayedTabRecords,
+  queryDelayedTabRecords,
+  writeDelayedTabRecords,
+} from './repository';
+import { syncWakeAlarm } from './scheduler';
+
+// Tail of the queue every read-modify-write of storage waits on
+let storageQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs a task once every previously queued storage task has settled. The
+ * background worker is the only writer of delayed tabs, so this is enough to
+ * make each read-modify-write atomic. Never call it from inside a task.
+ */
+export function withStorageLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = storageQueue.then(task);
+  storageQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Appends records that failed validation to the quarantine list so they can
+ * be inspected or recovered later
+ */
+export async function quarantineRecords(
+  records: QuarantinedRecord[]
+): Promise<void> {
+  if (records.length === 0) {
+    return;
+  }
+
+  const { quarantinedTabs = [] } =
+    await chrome.storage.local.get('quarantinedTabs');
+
+  await chrome.storage.local.set({
+    quarantinedTabs: [
+      ...(Array.isArray(quarantinedTabs) ? quarantinedTabs : []),
+      ...records,
+    ],
+  });
+}
+
+async function readDelayedTabs(query?: DelayedTabQuery): Promise<DelayedTab[]> {
+  const records = query
+    ? await queryDelayedTabRecords(query)
+    : await getAllDelayedTabRecords();
+  const { valid, quarantined } = partitionDelayedTabs(records);
+
+  if (quarantined.length > 0) {
+    await quarantineRecords(quarantined);
+    await writeDelayedTabRecords({
+      remove: quarantined
+        .map(({ record }) => (record as { id?: unknown } | null)?.id)
+        .filter((id): id is string => typeof id === 'string'),
+    });
+  }
+
+  return valid;
+}
+
+/**
+ * Reads the delayed tabs matching a query, or all of them, moving any
+ * corrupt records to quarantine first. Waits for pending mutations so it
+ * never sees a half-applied change.
+ */
+export function loadDelayedTabs(
+  query?: DelayedTabQuery
+): Promise<DelayedTab[]> {
+  return withStorageLock(() => readDelayedTabs(query));
+}
+
+/**
+ * Applies a change to the delayed tabs atomically, moves the wake alarm to
+ * match and returns the resulting list. Only records the mutator replaced or
+ * dropped are written. Mutations run one at a time in the order they were
+ * requested, so a wake and a popup delay landing together can no longer
+ * overwrite each other.
+ */
+export function mutateDelayedTabs(
+  mutator: (tabs: DelayedTab[]) => DelayedTab[] | Promise<DelayedTab[]>
+): Promise<DelayedTab[]> {
+  return withStorageLock(async () => {
+    const currentTabs = await readDelayedTabs();
+    const updatedTabs = await mutator(currentTabs);
+
+    const currentById = new Map(currentTabs.map((tab) => [tab.id, tab]));
+    const updatedIds = new Set(updatedTabs.map((tab) => tab.id));
+    const put = updatedTabs.filter((tab) => currentById.get(tab.id) !== tab);
+    const remove = currentTabs
+      .filter((tab) => !updatedIds.has(tab.id))
+      .map((tab) => tab.id);
+
+    if (put.length > 0 || remove.length > 0) {
+      await writeDelayedTabRecords({ put, remove });
+      await syncWakeAlarm(updatedTabs);
+    }
+
+    return updatedTabs;
+  });
+}
@@ -0,0 +1,325 @@
+import { DelayedTab, SyncStatus } from '@types';
+import { DEFAULT_DELAY_SETTINGS } from '@utils/validation';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  CLAIM_SETTLE_MS,
+  claimDueTabs,
+  SYNC_META_KEY,
+  syncDelayedTabs,
+} from './sync';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const QUOTA_BYTES = 102_400;
+const QUOTA_BYTES_PER_ITEM = 8192;
+const now = 100 * DAY_MS;
+
+// In-memory stand-ins for the delayed tabs, storage.local and storage.sync
+let delayedTabs: DelayedTab[] = [];
+let localArea: Record<string, unknown> = {};
+let syncArea: Record<string, unknown> = {};
+
+vi.mock('./storage', () => ({
+  mutateDelayedTabs: async (
+    mutate: (tabs: DelayedTab[]) => DelayedTab[] | Promise<DelayedTab[]>
+  ): Promise<void> => {
+    delayedTabs = await mutate(delayedTabs);
+  },
+}));
+
+vi.mock('./wakeHold', () => ({
+  getActiveWakeHold: async () => null,
+  pauseWakes: async () => undefined,
+}));
+
+const makeArea = (read: () => Record<string, unknown>) => ({
+  get: async (keys: string | string[] | null) => {
+    const area = read();
+    const wanted =
+      keys === null ? Object.keys(area) : Array.isArray(keys) ? keys : [keys];
+    return Object.fromEntries(
+      wanted.filter((key) => key in area).map((key) => [key, area[key]])
+    );
+  },
+  set: async (items: Record<string, unknown>) => {
+    Object.assign(read(), globalThis.structuredClone(items));
+  },
+  remove: async (keys: string | string[]) => {
+    const area = read();
+    [keys].flat().forEach((key) => delete area[key]);
+  },
+});
+
+vi.stubGlobal('chrome', {
+  storage: {
+    local: makeArea(() => localArea),
+    sync: { ...makeArea(() => syncArea), QUOTA_BYTES },
+  },
+});
+
+const makeTab = (id: string, extra: Partial<DelayedTab> = {}): DelayedTab => ({
+  id,
+  url: `https://example.com/${id}`,
+  createdAt: 0,
+  wakeTime: 5 * DAY_MS,
+  ...extra,
+});
+
+const entry = (value: unknown, modifiedAt: number, deviceId = 'there') => ({
+  ...(value !== undefined && { value }),
+  modifiedAt,
+  deviceId,
+});
+
+// Stores a state the way another device would have written it
+const seedRemote = (state: object): void => {
+  syncArea[SYNC_META_KEY] = {
+    revision: 'seed',
+    chunks: 1,
+    deviceId: 'there',
+    updatedAt: 0,
+  };
+  syncArea['syncChunk:seed:0'] = JSON.stringify(state);
+};
+
+// What this device remembers from its last pass
+const seedPrevious = (tabs: Record<string, unknown>, settings?: unknown) => {
+  localArea.syncState = { tabs, settings };
+};
+
+const readRemote = () => {
+  const { revision, chunks } = syncArea[SYNC_META_KEY] as {
+    revision: string;
+    chunks: number;
+  };
+  return JSON.parse(
+    Array.from(
+      { length: chunks },
+      (_, index) => syncArea[`syncChunk:${revision}:${index}`]
+    ).join('')
+  );
+};
+
+const syncError = (): string | undefined =>
+  (localArea.syncStatus as SyncStatus | undefined)?.error;
+
+describe('syncDelayedTabs', () => {
+  beforeEach(() => {
+    delayedTabs = [];
+    localArea = {
+      syncDeviceId: 'here',
+      delaySettings: { ...DEFAULT_DELAY_SETTINGS, syncEnabled: true },
+    };
+    syncArea = {};
+  });
+
+  it('takes a newer remote edit over an unchanged local tab', async () => {
+    const synced = makeTab('a', { title: 'Synced' });
+    delayedTabs = [synced];
+    seedPrevious({ a: entry(synced, 1000, 'here') });
+    seedRemote({ tabs: { a: entry({ ...synced, title: 'Edited' }, 2000) } });
+
+    await syncDelayedTabs(now);
+
+    expect(syncError()).toBeUndefined();
+    expect(delayedTabs.map((tab) => tab.title)).toEqual(['Edited']);
+  });
+
+  it('keeps a local edit made after the remote one', async () => {
+    const synced = makeTab('a', { title: 'Synced' });
+    delayedTabs = [{ ...synced, title: 'Local' }];
+    seedPrevious({ a: entry(synced, 1000, 'here') });
+    seedRemote({ tabs: { a: entry({ ...synced, title: 'Edited' }, 2000) } });
+
+    await syncDelayedTabs(now);
+
+    expect(delayedTabs.map((tab) => tab.title)).toEqual(['Local']);
+    expect(readRemote().tabs.a).toMatchObject({
+      value: { title: 'Local' },
+      modifiedAt: now,
+      deviceId: 'here',
+    });
+  });
+
+  it.each([
+    ['the remote edit', 'zzz', 'Remote'],
+    ['the local edit', 'aaa', 'Local'],
+  ])(
+    'breaks a tie in edit time by device id, picking %s',
+    async (_, remoteDeviceId, expectedTitle) => {
+      const synced = makeTab('a', { title: 'Synced' });
+      delayedTabs = [{ ...synced, title: 'Local' }];
+      seedPrevious({ a: entry(synced, 1000, 'here') });
+      seedRemote({
+        tabs: {
+          a: entry({ ...synced, title: 'Remote' }, now, remoteDeviceId),
+        },
+      });
+
+      await syncDelayedTabs(now);
+
+      expect(delayedTabs.map((tab) => tab.title)).toEqual([expectedTitle]);
+    }
+  );
+
+  it('removes tabs deleted elsewhere and drops tombstones after 30 days', async () => {
+    const removed = makeTab('removed');
+    delayedTabs = [removed];
+    seedPrevious({ removed: entry(removed, 1000, 'here') });
+    seedRemote({
+      tabs: {
+        removed: entry(undefined, now - DAY_MS),
+        expired: entry(undefined, now - 30 * DAY_MS - 1),
+        recent: entry(undefined, now - 29 * DAY_MS),
+      },
+    });
+
+    await syncDelayedTabs(now);
+
+    expect(delayedTabs).toEqual([]);
+    expect(Object.keys(readRemote().tabs).sort()).toEqual([
+      'recent',
+      'removed',
+    ]);
+  });
+
+  it('takes the synced settings on the first pass of a device', async () => {
+    localArea.delaySettings = {
+      ...DEFAULT_DELAY_SETTINGS,
+      laterToday: 5,
+      syncEnabled: true,
+    };
+    seedRemote({
+      tabs: {},
+      settings: entry({ ...DEFAULT_DELAY_SETTINGS, laterToday: 2 }, 1000),
+    });
+
+    await syncDelayedTabs(now);
+
+    expect(localArea.delaySettings).toMatchObject({
+      laterToday: 2,
+      syncEnabled: true,
+    });
+  });
+
+  it('pushes settings edited later over the synced ones', async () => {
+    const synced = { ...DEFAULT_DELAY_SETTINGS, laterToday: 2 };
+    localArea.delaySettings = { ...synced, laterToday: 5, syncEnabled: true };
+    seedPrevious({}, entry(synced, 1000, 'here'));
+    seedRemote({ tabs: {}, settings: entry(synced, 1000, 'here') });
+
+    await syncDelayedTabs(now);
+
+    expect(readRemote().settings.value.laterToday).toBe(5);
+  });
+
+  it('splits the state into chunks that each fit one sync item', async () => {
+    // Quotes and backslashes take two bytes once the chunk is stored
+    delayedTabs = Array.from({ length: 60 }, (_, index) =>
+      makeTab(`tab-${index}`, {
+        title: `"Quoted" \\ título ${'é'.repeat(200)}`,
+      })
+    );
+
+    await syncDelayedTabs(now);
+
+    expect(syncError()).toBeUndefined();
+    const chunkKeys = Object.keys(syncArea).filter((key) =>
+      key.startsWith('syncChunk:')
+    );
+    expect(chunkKeys.length).toBeGreaterThan(1);
+    chunkKeys.forEach((key) => {
+      const itemBytes = new TextEncoder().encode(
+        key + JSON.stringify(syncArea[key])
+      ).length;
+      expect(itemBytes).toBeLessThanOrEqual(QUOTA_BYTES_PER_ITEM);
+    });
+    expect(Object.keys(readRemote().tabs)).toHaveLength(60);
+  });
+
+  it('reports a state too large for the quota and keeps the old one', async () => {
+    seedRemote({ tabs: {} });
+    delayedTabs = Array.from({ length: 400 }, (_, index) =>
+      makeTab(`tab-${index}`, { title: 'x'.repeat(250) })
+    );
+
+    await syncDelayedTabs(now);
+
+    expect(syncError()).toBe('Too many delayed tabs to fit in Chrome sync');
+    expect(readRemote()).toEqual({ tabs: {} });
+    expect(delayedTabs).toHaveLength(400);
+  });
+});
+
+describe('claimDueTabs', () => {
+  const ids = (tabs: DelayedTab[]): string[] => tabs.map((tab) => tab.id);
+
+  beforeEach(() => {
+    localArea = {
+      syncDeviceId: 'here',
+      delaySettings: { ...DEFAULT_DELAY_SETTINGS, syncEnabled: true },
+    };
+    syncArea = {};
+  });
+
+  it('leaves every tab to this device without sync', async () => {
+    localArea.delaySettings = DEFAULT_DELAY_SETTINGS;
+    const tabs = [makeTab('a'), makeTab('b')];
+
+    expect(await claimDueTabs(tabs, now)).toEqual({
+      mine: tabs,
+      elsewhere: [],
+      pending: [],
+    });
+    expect(syncArea).toEqual({});
+  });
+
+  it('sorts tabs by who claimed them and how long ago', async () => {
+    const wakeTime = 5 * DAY_MS;
+    syncArea = {
+      [`syncClaim:other:${wakeTime}`]: { deviceId: 'there', claimedAt: now },
+      [`syncClaim:settled:${wakeTime}`]: {
+        deviceId: 'here',
+        claimedAt: now - CLAIM_SETTLE_MS,
+      },
+      [`syncClaim:settling:${wakeTime}`]: {
+        deviceId: 'here',
+        claimedAt: now - CLAIM_SETTLE_MS + 1,
+      },
+    };
+
+    const claimed = await claimDueTabs(
+      [
+        makeTab('other'),
+        makeTab('settled'),
+        makeTab('settling'),
+        makeTab('fresh'),
+      ],
+      now
+    );
+
+    expect(ids(claimed.mine)).toEqual(['settled']);
+    expect(ids(claimed.elsewhere)).toEqual(['other']);
+    expect(ids(claimed.pending)).toEqual(['settling', 'fresh']);
+    expect(syncArea[`syncClaim:fresh:${wakeTime}`]).toEqual({
+      deviceId: 'here',
+      claimedAt: now,
+    });
+  });
+
+  it('claims the tabs of one window session together', async () => {
+    syncArea = {
+      [`syncClaim:window:${5 * DAY_MS}`]: { deviceId: 'there', claimedAt: 0 },
+    };
+
+    const claimed = await claimDueTabs(
+      [
+        makeTab('a', { windowSessionId: 'window' }),
+        makeTab('b', { windowSessionId: 'window' }),
+      ],
+      now
+    );
+
+    expect(ids(claimed.elsewhere)).toEqual(['a', 'b']);
+  });
+});
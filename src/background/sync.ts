@@ -0,0 +1,488 @@
+import { DelayedTab, DelaySettings, SyncStatus } from '@types';
+import generateUniqueTabId from '@utils/generateUniqueTabId';
+import { sanitizeDelaySettings, validateDelayedTab } from '@utils/validation';
+
+import { mutateDelayedTabs } from './storage';
+import { getActiveWakeHold, pauseWakes } from './wakeHold';
+
+export const SYNC_ALARM = 'sync';
+const SYNC_PERIOD_MINUTES = 5;
+// Bursts of changes, such as a wake followed by its reschedule, share a pass
+const SYNC_DEBOUNCE_MS = 2000;
+
+const DEVICE_ID_KEY = 'syncDeviceId';
+const SYNC_STATE_KEY = 'syncState';
+const SYNC_STATUS_KEY = 'syncStatus';
+export const SYNC_META_KEY = 'syncMeta';
+const CHUNK_PREFIX = 'syncChunk:';
+const CLAIM_PREFIX = 'syncClaim:';
+
+// chrome.storage.sync allows 8 KB per item and 100 KB in total; part of the
+// total is kept free for claims
+const CHUNK_BYTES = 7500;
+const CLAIM_RESERVE_BYTES = 8 * 1024;
+const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const CLAIM_TTL_MS = 24 * 60 * 60 * 1000;
+// How long a claim waits for other devices' claims to arrive before waking.
+// chrome.storage.sync usually carries a write to the other devices within a
+// minute or two, and a device that comes online later still finds the claim.
+export const CLAIM_SETTLE_MS = 3 * 60 * 1000;
+
+// The latest version of one synced value, or a tombstone when value is
+// missing. The newest modifiedAt wins a conflict.
+interface SyncedEntry<T> {
+  value?: T;
+  modifiedAt: number;
+  deviceId: string;
+}
+
+interface SyncState {
+  tabs: Record<string, SyncedEntry<DelayedTab>>;
+  settings?: SyncedEntry<DelaySettings>;
+}
+
+// Points at the chunks of the current revision, so readers never mix
+// chunks from two writes
+interface SyncMeta {
+  revision: string;
+  chunks: number;
+  deviceId: string;
+  updatedAt: number;
+}
+
+interface WakeClaim {
+  deviceId: string;
+  claimedAt: number;
+}
+
+export interface ClaimedTabs {
+  mine: DelayedTab[]; // claimed by this device long enough ago to wake
+  elsewhere: DelayedTab[]; // another device wakes these
+  pending: DelayedTab[]; // claimed just now, waiting for other claims
+}
+
+let syncTimer: ReturnType<typeof setTimeout> | undefined;
+
+const isSyncEnabled = async (): Promise<boolean> => {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  return sanitizeDelaySettings(delaySettings).syncEnabled ?? false;
+};
+
+async function getDeviceId(): Promise<string> {
+  const { [DEVICE_ID_KEY]: storedId } =
+    await chrome.storage.local.get(DEVICE_ID_KEY);
+  if (typeof storedId === 'string') {
+    return storedId;
+  }
+
+  const deviceId = generateUniqueTabId();
+  await chrome.storage.local.set({ [DEVICE_ID_KEY]: deviceId });
+  return deviceId;
+}
+
+// Same output for equal values whatever order their keys were set in
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_, item: unknown) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.entries(item).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : item
+  );
+
+const getByteLength = (text: string): number =>
+  new TextEncoder().encode(text).length;
+
+/**
+ * The part of a delayed tab other devices can use. Window ids and pending
+ * catch-up choices only mean something here, and inline favicons would eat
+ * the sync quota.
+ */
+const toSyncedTab = (tab: DelayedTab): DelayedTab => ({
+  ...tab,
+  missedAt: undefined,
+  sourceWindowId: undefined,
+  sourceSessionId: undefined,
+  favicon: tab.favicon?.startsWith('data:') ? undefined : tab.favicon,
+});
+
+const toSyncedSettings = (settings: DelaySettings): DelaySettings => ({
+  ...settings,
+  syncEnabled: undefined,
+});
+
+// Puts the fields toSyncedTab left out back onto a tab that came from sync
+const withLocalFields = (tab: DelayedTab, local: DelayedTab): DelayedTab => ({
+  ...tab,
+  favicon: tab.favicon ?? local.favicon,
+  sourceWindowId: local.sourceWindowId,
+  sourceSessionId: local.sourceSessionId,
+  missedAt: tab.wakeTime === local.wakeTime ? local.missedAt : undefined,
+});
+
+function pickNewer<T>(
+  a: SyncedEntry<T> | undefined,
+  b: SyncedEntry<T> | undefined
+): SyncedEntry<T> | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  if (a.modifiedAt !== b.modifiedAt) {
+    return a.modifiedAt > b.modifiedAt ? a : b;
+  }
+  // Equal times resolve the same way on every device
+  return a.deviceId > b.deviceId ? a : b;
+}
+
+/**
+ * Records what changed here since the last pass: tabs added or edited get a
+ * fresh entry and tabs that are gone get a tombstone
+ */
+function toLocalState(
+  previous: SyncState,
+  tabs: DelayedTab[],
+  settings: DelaySettings,
+  deviceId: string,
+  now: number
+): SyncState {
+  const entries = { ...previous.tabs };
+  const localIds = new Set<string>();
+
+  for (const tab of tabs) {
+    localIds.add(tab.id);
+    const value = toSyncedTab(tab);
+    const entry = previous.tabs[tab.id];
+    if (
+      !entry?.value ||
+      stableStringify(entry.value) !== stableStringify(value)
+    ) {
+      entries[tab.id] = { value, modifiedAt: now, deviceId };
+    }
+  }
+
+  for (const [id, entry] of Object.entries(previous.tabs)) {
+    if (entry.value && !localIds.has(id)) {
+      entries[id] = { modifiedAt: now, deviceId };
+    }
+  }
+
+  const value = toSyncedSettings(settings);
+  const settingsChanged =
+    stableStringify(previous.settings?.value) !== stableStringify(value);
+
+  return {
+    tabs: entries,
+    // Settings of a device syncing for the first time are marked as never
+    // edited, so the ones already synced win
+    settings: settingsChanged
+      ? { value, modifiedAt: previous.settings ? now : 0, deviceId }
+      : previous.settings,
+  };
+}
+
+function mergeStates(
+  local: SyncState,
+  remote: SyncState,
+  now: number
+): SyncState {
+  const tabs: SyncState['tabs'] = {};
+  const ids = new Set([
+    ...Object.keys(local.tabs),
+    ...Object.keys(remote.tabs),
+  ]);
+
+  for (const id of ids) {
+    const entry = pickNewer(local.tabs[id], remote.tabs[id]);
+    if (entry && (entry.value || entry.modifiedAt > now - TOMBSTONE_TTL_MS)) {
+      tabs[id] = entry;
+    }
+  }
+
+  const settings =
+    local.settings?.modifiedAt === 0 && remote.settings
+      ? remote.settings
+      : pickNewer(local.settings, remote.settings);
+
+  return { tabs, settings };
+}
+
+function applyState(state: SyncState, localTabs: DelayedTab[]): DelayedTab[] {
+  const localById = new Map(localTabs.map((tab) => [tab.id, tab]));
+  const tabs: DelayedTab[] = [];
+
+  for (const [id, { value }] of Object.entries(state.tabs)) {
+    if (!value || validateDelayedTab(value)) {
+      continue;
+    }
+
+    const local = localById.get(id);
+    if (!local) {
+      tabs.push(value);
+    } else if (stableStringify(toSyncedTab(local)) === stableStringify(value)) {
+      // Unchanged tabs keep their record, so nothing is rewritten
+      tabs.push(local);
+    } else {
+      tabs.push(withLocalFields(value, local));
+    }
+  }
+
+  return tabs;
+}
+
+const isSyncMeta = (value: unknown): value is SyncMeta =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as SyncMeta).revision === 'string' &&
+  Number.isInteger((value as SyncMeta).chunks);
+
+const getChunkKey = (revision: string, index: number): string =>
+  `${CHUNK_PREFIX}${revision}:${index}`;
+
+async function readRemoteState(): Promise<SyncState> {
+  const { [SYNC_META_KEY]: meta } =
+    await chrome.storage.sync.get(SYNC_META_KEY);
+  if (!isSyncMeta(meta)) {
+    return { tabs: {} };
+  }
+
+  const keys = Array.from({ length: meta.chunks }, (_, index) =>
+    getChunkKey(meta.revision, index)
+  );
+  const chunks = await chrome.storage.sync.get(keys);
+  if (keys.some((key) => typeof chunks[key] !== 'string')) {
+    // Another device is halfway through a write; writing now would drop
+    // whatever it holds
+    throw new Error('Synced data is incomplete, trying again later');
+  }
+
+  const state = JSON.parse(keys.map((key) => chunks[key]).join(''));
+  return { tabs: state.tabs ?? {}, settings: state.settings };
+}
+
+// Stored chunks are JSON strings, so quotes and backslashes count twice
+function splitIntoChunks(text: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  let size = 0;
+
+  for (const character of text) {
+    const characterSize = getByteLength(JSON.stringify(character)) - 2;
+    if (size + characterSize > CHUNK_BYTES) {
+      chunks.push(current);
+      current = '';
+      size = 0;
+    }
+    current += character;
+    size += characterSize;
+  }
+  chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * Writes the state as chunks of a new revision, points the meta item at
+ * them and then drops the old revision and expired claims
+ */
+async function writeRemoteState(
+  state: SyncState,
+  deviceId: string,
+  now: number
+): Promise<void> {
+  const revision = now.toString(36);
+  const chunks: Record<string, string> = {};
+  splitIntoChunks(JSON.stringify(state)).forEach((chunk, index) => {
+    chunks[getChunkKey(revision, index)] = chunk;
+  });
+  const meta: SyncMeta = {
+    revision,
+    chunks: Object.keys(chunks).length,
+    deviceId,
+    updatedAt: now,
+  };
+
+  const stored = await chrome.storage.sync.get(null);
+  const itemBytes = (items: Record<string, unknown>): number =>
+    Object.entries(items).reduce(
+      (total, [key, value]) =>
+        total + getByteLength(key) + getByteLength(JSON.stringify(value)),
+      0
+    );
+
+  const staleKeys = Object.keys(stored).filter(
+    (key) =>
+      key.startsWith(CHUNK_PREFIX) ||
+      (key.startsWith(CLAIM_PREFIX) &&
+        (stored[key] as WakeClaim).claimedAt < now - CLAIM_TTL_MS)
+  );
+  const newBytes = itemBytes(chunks) + itemBytes({ [SYNC_META_KEY]: meta });
+  if (newBytes > chrome.storage.sync.QUOTA_BYTES - CLAIM_RESERVE_BYTES) {
+    throw new Error('Too many delayed tabs to fit in Chrome sync');
+  }
+
+  // Old chunks normally stay readable until the new meta is in place, but
+  // go first when both revisions would not fit side by side
+  if (itemBytes(stored) + newBytes > chrome.storage.sync.QUOTA_BYTES) {
+    await chrome.storage.sync.remove(staleKeys);
+    staleKeys.length = 0;
+  }
+
+  await chrome.storage.sync.set(chunks);
+  await chrome.storage.sync.set({ [SYNC_META_KEY]: meta });
+  if (staleKeys.length > 0) {
+    await chrome.storage.sync.remove(staleKeys);
+  }
+}
+
+/**
+ * Merges the delayed tabs and settings of this device with the ones in
+ * chrome.storage.sync and writes the result to both sides. Does nothing
+ * unless sync is turned on.
+ */
+export async function syncDelayedTabs(now: number = Date.now()): Promise<void> {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  const settings = sanitizeDelaySettings(delaySettings);
+  if (!settings.syncEnabled) {
+    return;
+  }
+
+  const status: SyncStatus = { lastSyncedAt: now };
+  try {
+    const deviceId = await getDeviceId();
+
+    await mutateDelayedTabs(async (localTabs) => {
+      const { [SYNC_STATE_KEY]: stored } =
+        await chrome.storage.local.get(SYNC_STATE_KEY);
+      const previous: SyncState = stored ?? { tabs: {} };
+
+      const remote = await readRemoteState();
+      const merged = mergeStates(
+        toLocalState(previous, localTabs, settings, deviceId, now),
+        remote,
+        now
+      );
+
+      if (stableStringify(merged) !== stableStringify(remote)) {
+        await writeRemoteState(merged, deviceId, now);
+      }
+      await chrome.storage.local.set({ [SYNC_STATE_KEY]: merged });
+
+      const syncedSettings = merged.settings?.value;
+      if (
+        syncedSettings &&
+        stableStringify(syncedSettings) !==
+          stableStringify(toSyncedSettings(settings))
+      ) {
+        await chrome.storage.local.set({
+          delaySettings: {
+            ...sanitizeDelaySettings(syncedSettings),
+            syncEnabled: true,
+          },
+        });
+      }
+
+      return applyState(merged, localTabs);
+    });
+  } catch (error) {
+    const { [SYNC_STATUS_KEY]: previousStatus } =
+      await chrome.storage.local.get(SYNC_STATUS_KEY);
+    status.lastSyncedAt = (
+      previousStatus as SyncStatus | undefined
+    )?.lastSyncedAt;
+    status.error = error instanceof Error ? error.message : String(error);
+  }
+
+  await chrome.storage.local.set({ [SYNC_STATUS_KEY]: status });
+}
+
+/**
+ * Runs a sync pass shortly, folding repeated requests into one
+ */
+export function requestSync(): void {
+  clearTimeout(syncTimer);
+  syncTimer = setTimeout(() => {
+    syncDelayedTabs().catch(() => undefined);
+  }, SYNC_DEBOUNCE_MS);
+}
+
+/**
+ * Starts or stops the periodic sync alarm to match the setting. Changes made
+ * on other devices also arrive through chrome.storage.onChanged.
+ */
+export async function scheduleSync(): Promise<void> {
+  if (!(await isSyncEnabled())) {
+    await chrome.alarms.clear(SYNC_ALARM);
+    return;
+  }
+
+  if (!(await chrome.alarms.get(SYNC_ALARM))) {
+    await chrome.alarms.create(SYNC_ALARM, {
+      periodInMinutes: SYNC_PERIOD_MINUTES,
+    });
+  }
+}
+
+// Tabs of one window session share a claim so the window never splits
+const getClaimKey = (tab: DelayedTab): string =>
+  `${CLAIM_PREFIX}${tab.windowSessionId ?? tab.id}:${tab.wakeTime}`;
+
+/**
+ * Lets a single device wake each synced occurrence. Unclaimed tabs are
+ * claimed for this device and, since other devices may be claiming them at
+ * the same moment, held until the claims have had time to sync; whichever
+ * claim survives wins. Without sync every tab is this device's to wake.
+ */
+export async function claimDueTabs(
+  dueTabs: DelayedTab[],
+  now: number = Date.now()
+): Promise<ClaimedTabs> {
+  const claimed: ClaimedTabs = { mine: [], elsewhere: [], pending: [] };
+  if (dueTabs.length === 0 || !(await isSyncEnabled())) {
+    claimed.mine = dueTabs;
+    return claimed;
+  }
+
+  const deviceId = await getDeviceId();
+  const claims = await chrome.storage.sync.get(dueTabs.map(getClaimKey));
+  const newClaims: Record<string, WakeClaim> = {};
+
+  for (const tab of dueTabs) {
+    const key = getClaimKey(tab);
+    const claim = claims[key] as WakeClaim | undefined;
+
+    if (!claim) {
+      newClaims[key] = { deviceId, claimedAt: now };
+      claimed.pending.push(tab);
+    } else if (claim.deviceId !== deviceId) {
+      claimed.elsewhere.push(tab);
+    } else if (claim.claimedAt + CLAIM_SETTLE_MS > now) {
+      claimed.pending.push(tab);
+    } else {
+      claimed.mine.push(tab);
+    }
+  }
+
+  if (Object.keys(newClaims).length > 0) {
+    await chrome.storage.sync.set(newClaims);
+  }
+
+  return claimed;
+}
+
+/**
+ * Holds tabs whose claims are still settling, keeping any longer hold
+ */
+export async function holdPendingClaims(
+  pendingTabs: DelayedTab[],
+  now: number = Date.now()
+): Promise<void> {
+  if (pendingTabs.length === 0) {
+    return;
+  }
+
+  const hold = await getActiveWakeHold(now);
+  await pauseWakes(
+    Math.max(hold?.until ?? 0, now + CLAIM_SETTLE_MS),
+    pendingTabs.length
+  );
+}
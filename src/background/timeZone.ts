@@ -0,0 +1,102 @@
+import { DelayedTab, WorkSchedule } from '@types';
+import calculateNextWakeTime from '@utils/calculateNextWakeTime';
+import { sanitizeDelaySettings } from '@utils/validation';
+import { getSystemTimeZone, shiftToTimeZone } from '@utils/zonedTime';
+
+import { mutateDelayedTabs } from './storage';
+
+export const TIME_ZONE_ALARM = 'time-zone-check';
+// Service workers get no event for system time zone changes, so we poll
+const TIME_ZONE_CHECK_MINUTES = 15;
+
+/**
+ * Zone a delayed tab's recurrence is evaluated in: the zone it was created in,
+ * or the current system zone when the tab follows the user around
+ */
+export function getTabTimeZone(tab: DelayedTab): string {
+  if (tab.timeZoneMode === 'current') {
+    return getSystemTimeZone();
+  }
+  return tab.recurrencePattern?.timeZone ?? tab.timeZone ?? getSystemTimeZone();
+}
+
+function followTimeZone(
+  tab: DelayedTab,
+  fromTimeZone: string,
+  toTimeZone: string,
+  now: number,
+  workSchedule?: WorkSchedule
+): DelayedTab {
+  const previousZone = tab.timeZone ?? fromTimeZone;
+
+  if (!tab.isRecurring || !tab.recurrencePattern) {
+    return {
+      ...tab,
+      timeZone: toTimeZone,
+      wakeTime: shiftToTimeZone(tab.wakeTime, previousZone, toTimeZone),
+    };
+  }
+
+  const { startDate } = tab.recurrencePattern;
+  const recurrencePattern = {
+    ...tab.recurrencePattern,
+    timeZone: toTimeZone,
+    startDate:
+      startDate !== undefined
+        ? shiftToTimeZone(startDate, previousZone, toTimeZone)
+        : undefined,
+  };
+  const wakeTime = calculateNextWakeTime(
+    recurrencePattern,
+    now,
+    toTimeZone,
+    workSchedule
+  );
+
+  return {
+    ...tab,
+    timeZone: toTimeZone,
+    recurrencePattern,
+    wakeTime: wakeTime ?? tab.wakeTime,
+  };
+}
+
+export function scheduleTimeZoneChecks(): void {
+  chrome.alarms.create(TIME_ZONE_ALARM, {
+    periodInMinutes: TIME_ZONE_CHECK_MINUTES,
+  });
+}
+
+/**
+ * Moves tabs that follow the user's zone to the new system zone. Tabs pinned
+ * to their original zone keep their absolute wake times, which already match
+ * that zone's wall clock.
+ */
+export async function handleTimeZoneChange(): Promise<void> {
+  const timeZone = getSystemTimeZone();
+
+  // The zone check and the shift happen in one mutation so two overlapping
+  // checks cannot move the same tabs twice
+  await mutateDelayedTabs(async (normalizedTabs) => {
+    const { lastTimeZone } = await chrome.storage.local.get('lastTimeZone');
+
+    if (lastTimeZone === timeZone) {
+      return normalizedTabs;
+    }
+
+    await chrome.storage.local.set({ lastTimeZone: timeZone });
+
+    if (!lastTimeZone) {
+      return normalizedTabs;
+    }
+
+    const { delaySettings } = await chrome.storage.local.get('delaySettings');
+    const { workSchedule } = sanitizeDelaySettings(delaySettings);
+    const now = Date.now();
+    return normalizedTabs.map((tab) =>
+      tab.timeZoneMode === 'current'
+        ? followTimeZone(tab, lastTimeZone, timeZone, now, workSchedule)
+        : tab
+    );
+  });
+}
@@ -0,0 +1,479 @@
+import {
+  DelayedTab,
+  DelayedTabGroup,
+  DelayedWindowLayout,
+  RestoreTarget,
+  WorkSchedule,
+} from '@types';
+import calculateNextWakeTime from '@utils/calculateNextWakeTime';
+import isTimedTab from '@utils/isTimedTab';
+import { sanitizeDelaySettings } from '@utils/validation';
+
+import getBrowserSessionId from './browserSession';
+import { getTabTimeZone } from './timeZone';
+import { showWakeNotification, toWakeTargets } from './wakeNotifications';
+
+// Wakes this far past their scheduled time are reported as late
+export const LATE_THRESHOLD_MS = 5 * 60 * 1000;
+
+export const isLate = (tab: DelayedTab, now: number = Date.now()): boolean =>
+  isTimedTab(tab) && now - tab.wakeTime > LATE_THRESHOLD_MS;
+
+// Ids of an occurrence are the series' first id plus its wake time, so
+// devices that queue the same occurrence agree on it and sync keeps one copy
+const toOccurrenceId = (id: string, wakeTime: number): string =>
+  `${id.split('@')[0]}@${wakeTime}`;
+
+/**
+ * Creates the next occurrence of every recurring tab in the list. Tabs that
+ * were delayed together as a window keep sharing a new window session.
+ */
+export function rescheduleRecurringTabs(
+  tabs: DelayedTab[],
+  now: number = Date.now(),
+  workSchedule?: WorkSchedule
+): DelayedTab[] {
+  const rescheduledTabs: DelayedTab[] = [];
+
+  for (const tab of tabs) {
+    if (!tab.isRecurring || !tab.recurrencePattern) {
+      continue;
+    }
+
+    const nextWakeTime = calculateNextWakeTime(
+      tab.recurrencePattern,
+      now,
+      getTabTimeZone(tab),
+      workSchedule
+    );
+
+    if (!nextWakeTime) {
+      continue;
+    }
+
+    rescheduledTabs.push({
+      ...tab,
+      id: toOccurrenceId(tab.id, nextWakeTime),
+      wakeTime: nextWakeTime,
+      windowSessionId:
+        tab.windowSessionId &&
+        toOccurrenceId(tab.windowSessionId, nextWakeTime),
+      missedAt: undefined,
+    });
+  }
+
+  return rescheduledTabs;
+}
+
+/**
+ * Drops woken tabs from the list and queues the next occurrence of the
+ * recurring ones. Used on its own, it skips the wake without opening anything.
+ */
+export function completeWake(
+  wokenTabs: DelayedTab[],
+  allTabs: DelayedTab[],
+  workSchedule?: WorkSchedule
+): DelayedTab[] {
+  const wokenIds = new Set(wokenTabs.map((tab) => tab.id));
+  const remainingTabs = allTabs.filter((tab) => !wokenIds.has(tab.id));
+
+  return [
+    ...remainingTabs,
+    ...rescheduleRecurringTabs(wokenTabs, Date.now(), workSchedule),
+  ];
+}
+
+/**
+ * Drops tabs another device claimed and woke. Only that device queues the
+ * next occurrence of recurring ones, which arrives here through sync.
+ */
+export function dropTabsWokenElsewhere(
+  wokenTabs: DelayedTab[],
+  allTabs: DelayedTab[]
+): DelayedTab[] {
+  const wokenIds = new Set(wokenTabs.map((tab) => tab.id));
+  return allTabs.filter((tab) => !wokenIds.has(tab.id));
+}
+
+export const getWorkSchedule = async (): Promise<WorkSchedule | undefined> => {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  return sanitizeDelaySettings(delaySettings).workSchedule;
+};
+
+const getRestoreTarget = async (): Promise<RestoreTarget> => {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  return sanitizeDelaySettings(delaySettings).restoreTarget ?? 'originalWindow';
+};
+
+/**
+ * Window the tab was delayed from, if it is still open in this browser
+ * session. Window ids are reused after a restart, so older ids are ignored.
+ */
+async function getSourceWindowId(
+  delayedTab: DelayedTab
+): Promise<number | undefined> {
+  if (
+    delayedTab.sourceWindowId === undefined ||
+    delayedTab.sourceSessionId !== (await getBrowserSessionId())
+  ) {
+    return undefined;
+  }
+
+  const sourceWindow = await chrome.windows
+    .get(delayedTab.sourceWindowId)
+    .catch(() => undefined);
+  return sourceWindow?.type === 'normal' ? sourceWindow.id : undefined;
+}
+
+const isLazyWake = async (): Promise<boolean> => {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  return sanitizeDelaySettings(delaySettings).wakePacing === 'lazy';
+};
+
+/**
+ * Discards freshly opened background tabs so they keep their place but only
+ * load once focused. Active tabs cannot be discarded and are left alone.
+ * Returns the tabs as they are now, since discarding can change a tab's id.
+ */
+function discardTabs(tabs: chrome.tabs.Tab[]): Promise<chrome.tabs.Tab[]> {
+  return Promise.all(
+    tabs.map(async (tab) =>
+      tab.id !== undefined && !tab.active
+        ? ((await chrome.tabs.discard(tab.id).catch(() => undefined)) ?? tab)
+        : tab
+    )
+  );
+}
+
+const getTabIds = (tabs: chrome.tabs.Tab[]): number[] =>
+  tabs.map((tab) => tab.id).filter((id): id is number => id !== undefined);
+
+/**
+ * Opens a woken tab where the user's restore setting says. The original
+ * window falls back to the current one once it has been closed. Lazy wakes
+ * open in the background so the tab can be discarded.
+ */
+async function openWokenTab(
+  delayedTab: DelayedTab,
+  url: string,
+  lazy: boolean
+): Promise<chrome.tabs.Tab | undefined> {
+  const { pinned } = delayedTab;
+  const active = lazy ? false : undefined;
+
+  switch (await getRestoreTarget()) {
+    case 'newWindow': {
+      const createdWindow = await chrome.windows.create({ url });
+      const [createdTab] = createdWindow.tabs ?? [];
+      if (createdTab?.id !== undefined && pinned) {
+        await chrome.tabs.update(createdTab.id, { pinned });
+      }
+      return createdTab;
+    }
+
+    case 'backgroundTab':
+      return chrome.tabs.create({ url, pinned, active: false });
+
+    case 'currentWindow':
+      return chrome.tabs.create({ url, pinned, active });
+
+    case 'originalWindow':
+    default: {
+      const windowId = await getSourceWindowId(delayedTab);
+      if (windowId === undefined) {
+        return chrome.tabs.create({ url, pinned, active });
+      }
+
+      const createdTab = await chrome.tabs.create({
+        url,
+        pinned,
+        active,
+        windowId,
+        index: delayedTab.windowIndex,
+      });
+      if (!lazy) {
+        await chrome.windows.update(windowId, { focused: true });
+      }
+      return createdTab;
+    }
+  }
+}
+
+async function handleSingleTabWake(
+  delayedTab: DelayedTab,
+  allTabs: DelayedTab[],
+  lazy: boolean
+): Promise<DelayedTab[]> {
+  let createdTab = delayedTab.url
+    ? await openWokenTab(delayedTab, delayedTab.url, lazy)
+    : undefined;
+
+  if (createdTab?.id !== undefined && delayedTab.muted) {
+    await chrome.tabs
+      .update(createdTab.id, { muted: true })
+      .catch((error) => console.error('Error muting woken tab:', error));
+  }
+
+  if (createdTab && lazy) {
+    [createdTab] = await discardTabs([createdTab]);
+  }
+
+  await showWakeNotification(
+    {
+      iconUrl: delayedTab.favicon,
+      title: isLate(delayedTab) ? 'Tab Awakened Late' : 'Tab Awakened!',
+      message: `Your ${delayedTab.isRecurring ? 'recurring' : 'delayed'} tab "${delayedTab.title}" is now open.`,
+    },
+    {
+      tabIds: createdTab?.id !== undefined ? [createdTab.id] : [],
+      windowId: createdTab?.windowId,
+      targets: toWakeTargets([delayedTab]),
+      asWindow: false,
+    }
+  );
+
+  return completeWake([delayedTab], allTabs, await getWorkSchedule());
+}
+
+/**
+ * Opens a window for woken tabs with the size, placement, type and state it
+ * had when it was delayed
+ */
+async function createWakeWindow(
+  urls: string[],
+  windowLayout?: DelayedWindowLayout
+): Promise<chrome.windows.Window> {
+  const { state, ...bounds } = windowLayout ?? {};
+  const createdWindow = await chrome.windows.create({ url: urls, ...bounds });
+
+  // Maximized and fullscreen windows cannot be created with bounds, so the
+  // state is applied afterwards and un-maximizing restores the old size
+  if (createdWindow.id !== undefined && state && state !== 'normal') {
+    await chrome.windows.update(createdWindow.id, { state });
+  }
+
+  return createdWindow;
+}
+
+/**
+ * Pins and mutes the reopened tabs that were pinned or muted when delayed.
+ * createdTabIds lines up with openedTabs.
+ */
+async function restoreTabStates(
+  openedTabs: DelayedTab[],
+  createdTabIds: number[]
+): Promise<void> {
+  await Promise.all(
+    openedTabs.map(async (tab, index) => {
+      const tabId = createdTabIds[index];
+      if (tabId === undefined || (!tab.pinned && !tab.muted)) {
+        return;
+      }
+      // The tab is open either way, so a tab closed meanwhile is not an error
+      await chrome.tabs
+        .update(tabId, {
+          ...(tab.pinned && { pinned: true }),
+          ...(tab.muted && { muted: true }),
+        })
+        .catch((error) =>
+          console.error('Error restoring woken tab state:', error)
+        );
+    })
+  );
+}
+
+/**
+ * Rebuilds the tab groups of a reopened window. createdTabIds lines up with
+ * openedTabs, the delayed tabs that had a URL to open.
+ */
+async function restoreTabGroups(
+  openedTabs: DelayedTab[],
+  createdTabIds: number[],
+  windowId: number
+): Promise<void> {
+  const groups = new Map<
+    string,
+    { group: DelayedTabGroup; tabIds: number[] }
+  >();
+
+  openedTabs.forEach((tab, index) => {
+    const tabId = createdTabIds[index];
+    if (!tab.tabGroup || tabId === undefined) {
+      return;
+    }
+    const entry = groups.get(tab.tabGroup.groupKey) ?? {
+      group: tab.tabGroup,
+      tabIds: [],
+    };
+    entry.tabIds.push(tabId);
+    groups.set(tab.tabGroup.groupKey, entry);
+  });
+
+  for (const { group, tabIds } of groups.values()) {
+    try {
+      const groupId = await chrome.tabs.group({
+        tabIds,
+        createProperties: { windowId },
+      });
+      await chrome.tabGroups.update(groupId, {
+        title: group.title,
+        color: group.color,
+        collapsed: group.collapsed,
+      });
+    } catch (error) {
+      // The tabs still open, just without their group
+      console.error('Error restoring tab group:', group.groupKey, error);
+    }
+  }
+}
+
+async function handleWindowWake(
+  windowTabs: DelayedTab[],
+  allTabs: DelayedTab[],
+  lazy: boolean
+): Promise<DelayedTab[]> {
+  if (windowTabs.length === 0) {
+    return allTabs;
+  }
+
+  const sortedTabs = [...windowTabs].sort((a, b) => {
+    const indexA = typeof a.windowIndex === 'number' ? a.windowIndex : 0;
+    const indexB = typeof b.windowIndex === 'number' ? b.windowIndex : 0;
+    return indexA - indexB;
+  });
+
+  const urls = sortedTabs
+    .map((tab) => tab.url)
+    .filter((url): url is string => Boolean(url));
+
+  const firstTab = sortedTabs[0];
+  const createdWindow =
+    urls.length > 0
+      ? await createWakeWindow(urls, firstTab.windowLayout)
+      : undefined;
+
+  let createdTabs = createdWindow?.tabs ?? [];
+
+  if (createdWindow?.id !== undefined) {
+    const openedTabs = sortedTabs.filter((tab) => tab.url);
+    const createdTabIds = getTabIds(createdTabs);
+
+    await restoreTabStates(openedTabs, createdTabIds);
+    await restoreTabGroups(openedTabs, createdTabIds, createdWindow.id);
+
+    if (lazy) {
+      createdTabs = await discardTabs(createdTabs);
+    }
+  }
+
+  await showWakeNotification(
+    {
+      iconUrl: firstTab.favicon,
+      title: isLate(firstTab) ? 'Window Awakened Late' : 'Window Awakened!',
+      message: `Your ${firstTab.isRecurring ? 'recurring' : 'delayed'} window with ${sortedTabs.length} tab${
+        sortedTabs.length === 1 ? '' : 's'
+      } is now open.`,
+    },
+    {
+      tabIds: getTabIds(createdTabs),
+      windowId: createdWindow?.id,
+      targets: toWakeTargets(sortedTabs),
+      asWindow: true,
+    }
+  );
+
+  return completeWake(sortedTabs, allTabs, await getWorkSchedule());
+}
+
+/**
+ * Opens the given tabs, each window session as one unit. A unit that fails
+ * to open stays delayed for the next wake while the others still wake.
+ */
+export async function wakeTabsInternal(
+  tabsToWake: DelayedTab[],
+  normalizedTabs: DelayedTab[]
+): Promise<DelayedTab[]> {
+  let updatedTabs = [...normalizedTabs];
+  const processedWindowSessions = new Set<string>();
+  const lazy = await isLazyWake();
+
+  for (const tab of tabsToWake) {
+    if (tab.windowSessionId) {
+      if (processedWindowSessions.has(tab.windowSessionId)) {
+        continue;
+      }
+
+      processedWindowSessions.add(tab.windowSessionId);
+
+      const windowTabs = normalizedTabs.filter(
+        (item) =>
+          item.windowSessionId === tab.windowSessionId &&
+          item.wakeTime === tab.wakeTime
+      );
+
+      try {
+        updatedTabs = await handleWindowWake(windowTabs, updatedTabs, lazy);
+      } catch (error) {
+        console.error('Error waking window:', tab.windowSessionId, error);
+      }
+    } else {
+      try {
+        updatedTabs = await handleSingleTabWake(tab, updatedTabs, lazy);
+      } catch (error) {
+        console.error('Error waking tab:', tab.id, error);
+      }
+    }
+  }
+
+  return updatedTabs;
+}
+
+/**
+ * Opens every given tab in one new window with a single notification,
+ * regardless of how the tabs were originally delayed
+ */
+export async function wakeTabsIntoWindow(
+  tabsToWake: DelayedTab[],
+  normalizedTabs: DelayedTab[],
+  title: string
+): Promise<DelayedTab[]> {
+  if (tabsToWake.length === 0) {
+    return normalizedTabs;
+  }
+
+  const sortedTabs = [...tabsToWake].sort(
+    (a, b) =>
+      a.wakeTime - b.wakeTime || (a.windowIndex ?? 0) - (b.windowIndex ?? 0)
+  );
+
+  const urls = sortedTabs
+    .map((tab) => tab.url)
+    .filter((url): url is string => Boolean(url));
+
+  const createdWindow =
+    urls.length > 0 ? await chrome.windows.create({ url: urls }) : undefined;
+
+  let createdTabs = createdWindow?.tabs ?? [];
+  if (await isLazyWake()) {
+    createdTabs = await discardTabs(createdTabs);
+  }
+
+  await showWakeNotification(
+    {
+      title,
+      message: `${sortedTabs.length} tab${
+        sortedTabs.length === 1 ? '' : 's'
+      } that came due while you were away ${
+        sortedTabs.length === 1 ? 'is' : 'are'
+      } open in a new window.`,
+    },
+    {
+      tabIds: getTabIds(createdTabs),
+      windowId: createdWindow?.id,
+      targets: toWakeTargets(sortedTabs),
+      asWindow: true,
+    }
+  );
+
+  return completeWake(sortedTabs, normalizedTabs, await getWorkSchedule());
+}
@@ -0,0 +1,128 @@
+import { DelayedTab } from '@types';
+import getQuietHoursEnd from '@utils/getQuietHoursEnd';
+import { sanitizeDelaySettings } from '@utils/validation';
+
+export const HELD_NOTIFICATION_ID = 'wakes-held';
+const WAKE_HOLD_KEY = 'wakeHold';
+// Chrome has no event for leaving fullscreen, so held wakes poll for it
+const FULLSCREEN_RECHECK_MS = 2 * 60 * 1000;
+
+export type WakeHoldReason = 'quietHours' | 'fullscreen' | 'pacing';
+
+// Wakes that came due while quiet hours, a fullscreen window or wake pacing
+// held them back
+export interface WakeHold {
+  until: number;
+  reason: WakeHoldReason;
+  heldCount: number;
+}
+
+async function readWakeHold(): Promise<WakeHold | null> {
+  const { [WAKE_HOLD_KEY]: hold } =
+    await chrome.storage.local.get(WAKE_HOLD_KEY);
+  return (hold as WakeHold | undefined) ?? null;
+}
+
+/**
+ * The hold currently keeping due tabs closed, if it has not run out yet
+ */
+export async function getActiveWakeHold(
+  now: number = Date.now()
+): Promise<WakeHold | null> {
+  const hold = await readWakeHold();
+  return hold && hold.until > now ? hold : null;
+}
+
+/**
+ * Holds the remaining due tabs for a while without telling the user, so
+ * a large batch opens a few tabs at a time
+ */
+export async function pauseWakes(
+  until: number,
+  heldCount: number
+): Promise<void> {
+  const hold: WakeHold = { until, reason: 'pacing', heldCount };
+  await chrome.storage.local.set({ [WAKE_HOLD_KEY]: hold });
+}
+
+async function findHoldReason(
+  now: number
+): Promise<Pick<WakeHold, 'until' | 'reason'> | null> {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  const settings = sanitizeDelaySettings(delaySettings);
+
+  const quietHoursEnd = getQuietHoursEnd(settings.quietHours ?? [], now);
+  if (quietHoursEnd !== null) {
+    return { until: quietHoursEnd, reason: 'quietHours' };
+  }
+
+  if (settings.deferWhileFullscreen) {
+    const windows = await chrome.windows.getAll();
+    if (windows.some((browserWindow) => browserWindow.state === 'fullscreen')) {
+      return { until: now + FULLSCREEN_RECHECK_MS, reason: 'fullscreen' };
+    }
+  }
+
+  return null;
+}
+
+async function showHeldSummary(hold: WakeHold): Promise<void> {
+  const releaseTime = new Date(hold.until).toLocaleTimeString(undefined, {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  await chrome.notifications.create(HELD_NOTIFICATION_ID, {
+    type: 'basic',
+    iconUrl: 'icons/icon128.png',
+    title: 'Wakes on hold',
+    message: `${hold.heldCount} tab${hold.heldCount === 1 ? '' : 's'} ${
+      hold.heldCount === 1 ? 'is' : 'are'
+    } waiting ${
+      hold.reason === 'quietHours'
+        ? `for quiet hours to end at ${releaseTime}`
+        : 'for you to leave fullscreen'
+    }.`,
+    silent: true,
+  });
+}
+
+/**
+ * Decides whether due tabs may wake now. During quiet hours or while a
+ * window is fullscreen the wake is held and a single summary notification,
+ * updated in place, tells the user what is waiting. The wake alarm then
+ * points at the end of the hold.
+ */
+export async function holdDueTabs(
+  dueTabs: DelayedTab[],
+  now: number = Date.now()
+): Promise<boolean> {
+  const previousHold = await readWakeHold();
+  if (previousHold?.reason === 'pacing' && previousHold.until > now) {
+    return true;
+  }
+
+  const holdReason = await findHoldReason(now);
+
+  if (!holdReason) {
+    if (previousHold) {
+      await chrome.storage.local.remove(WAKE_HOLD_KEY);
+      await chrome.notifications.clear(HELD_NOTIFICATION_ID);
+    }
+    return false;
+  }
+
+  const hold: WakeHold = { ...holdReason, heldCount: dueTabs.length };
+  await chrome.storage.local.set({ [WAKE_HOLD_KEY]: hold });
+
+  // Fullscreen rechecks come every few minutes, so the summary is only
+  // shown again when something about the hold changed
+  if (
+    previousHold?.heldCount !== hold.heldCount ||
+    previousHold?.reason !== hold.reason
+  ) {
+    await showHeldSummary(hold);
+  }
+
+  return true;
+}
@@ -0,0 +1,101 @@
+import { DelayedTab, DelayTarget } from '@types';
+import generateUniqueTabId from '@utils/generateUniqueTabId';
+import { sanitizeDelaySettings } from '@utils/validation';
+
+export const WAKE_NOTIFICATION_PREFIX = 'wake-';
+
+export const SNOOZE_HOUR_BUTTON = 0;
+const DEFAULT_ICON_URL = 'icons/icon128.png';
+
+export interface WakeNotificationEntry {
+  tabIds: number[];
+  windowId?: number;
+  targets: DelayTarget[];
+  asWindow: boolean;
+}
+
+export const isWakeNotification = (notificationId: string): boolean =>
+  notificationId.startsWith(WAKE_NOTIFICATION_PREFIX);
+
+export const toWakeTargets = (tabs: DelayedTab[]): DelayTarget[] =>
+  tabs.map(({ url, title, favicon, windowIndex, tabGroup, pinned, muted }) => ({
+    url,
+    title,
+    favicon,
+    windowIndex,
+    tabGroup,
+    pinned,
+    muted,
+  }));
+
+// Each wake notification keeps what it opened under its own key, so its
+// buttons still work after the worker has been asleep and entries are
+// written without reading the others
+const toEntryKey = (notificationId: string): string =>
+  `wakeNotification:${notificationId}`;
+
+/**
+ * Shows a notification for tabs that just woke, with buttons to snooze them
+ * again. Clicking it brings the woken tab or window to the front. A favicon
+ * that cannot be loaded falls back to the extension icon, and a notification
+ * that still fails is only logged, since the tabs are already open.
+ */
+export async function showWakeNotification(
+  options: { title: string; message: string; iconUrl?: string },
+  entry: WakeNotificationEntry
+): Promise<void> {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  const notificationId = `${WAKE_NOTIFICATION_PREFIX}${generateUniqueTabId()}`;
+
+  const createNotification = async (iconUrl: string): Promise<void> => {
+    await chrome.notifications.create(notificationId, {
+      type: 'basic',
+      iconUrl,
+      title: options.title,
+      message: options.message,
+      buttons: [{ title: 'Snooze 1h' }, { title: 'Snooze till tomorrow' }],
+      requireInteraction:
+        sanitizeDelaySettings(delaySettings).keepWakeNotifications ?? false,
+    });
+  };
+
+  try {
+    await chrome.storage.session.set({ [toEntryKey(notificationId)]: entry });
+
+    await createNotification(options.iconUrl || DEFAULT_ICON_URL).catch(
+      (error) => {
+        if (!options.iconUrl) {
+          throw error;
+        }
+        return createNotification(DEFAULT_ICON_URL);
+      }
+    );
+  } catch (error) {
+    console.error('Error showing wake notification:', error);
+  }
+}
+
+/**
+ * Drops what a wake notification opened, once it can no longer be used
+ */
+export async function forgetWakeNotification(
+  notificationId: string
+): Promise<void> {
+  await chrome.storage.session.remove(toEntryKey(notificationId));
+}
+
+/**
+ * Clears a wake notification and returns what it opened, if still known.
+ * The entry is taken before the notification is cleared, as clearing it
+ * fires onClosed, which forgets the entry.
+ */
+export async function takeWakeNotification(
+  notificationId: string
+): Promise<WakeNotificationEntry | undefined> {
+  const key = toEntryKey(notificationId);
+  const { [key]: entry } = await chrome.storage.session.get(key);
+  await forgetWakeNotification(notificationId);
+  await chrome.notifications.clear(notificationId);
+
+  return entry as WakeNotificationEntry | undefined;
+}
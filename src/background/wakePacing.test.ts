@@ -0,0 +1,116 @@
+import { DelayedTab, DelaySettings } from '@types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { pauseWakes } from './wakeHold';
+import takePacedBatch from './wakePacing';
+
+let delaySettings: Partial<DelaySettings> = {};
+
+vi.mock('./wakeHold', () => ({
+  pauseWakes: vi.fn(async () => undefined),
+}));
+
+vi.stubGlobal('chrome', {
+  storage: {
+    local: {
+      get: async () => ({ delaySettings }),
+    },
+  },
+});
+
+const makeTab = (
+  id: string,
+  wakeTime: number,
+  windowSessionId?: string
+): DelayedTab => ({
+  id,
+  url: `https://example.com/${id}`,
+  createdAt: 0,
+  wakeTime,
+  ...(windowSessionId && { windowSessionId }),
+});
+
+const ids = (tabs: DelayedTab[]): string[] => tabs.map((tab) => tab.id);
+
+describe('takePacedBatch', () => {
+  beforeEach(() => {
+    delaySettings = { wakePacing: 'perMinute', tabsPerMinute: 3 };
+    vi.mocked(pauseWakes).mockClear();
+  });
+
+  it('wakes everything at once without pacing', async () => {
+    delaySettings = { wakePacing: 'immediate' };
+    const tabs = Array.from({ length: 10 }, (_, index) =>
+      makeTab(`tab-${index}`, index)
+    );
+
+    expect(await takePacedBatch(tabs, 0)).toBe(tabs);
+    expect(pauseWakes).not.toHaveBeenCalled();
+  });
+
+  it('takes the earliest tabs and holds the rest for a minute', async () => {
+    const tabs = [5, 1, 4, 2, 3].map((wakeTime) =>
+      makeTab(`tab-${wakeTime}`, wakeTime)
+    );
+
+    expect(ids(await takePacedBatch(tabs, 1000))).toEqual([
+      'tab-1',
+      'tab-2',
+      'tab-3',
+    ]);
+    expect(pauseWakes).toHaveBeenCalledWith(61_000, 2);
+  });
+
+  it('leaves a window that does not fit for the next pass', async () => {
+    const tabs = [
+      makeTab('single', 1),
+      makeTab('window-a', 2, 'window'),
+      makeTab('window-b', 2, 'window'),
+      makeTab('window-c', 2, 'window'),
+      makeTab('after', 3),
+    ];
+
+    expect(ids(await takePacedBatch(tabs, 0))).toEqual(['single']);
+    expect(pauseWakes).toHaveBeenCalledWith(60_000, 4);
+  });
+
+  it('wakes a window larger than the limit whole', async () => {
+    const tabs = [
+      ...Array.from({ length: 5 }, (_, index) =>
+        makeTab(`window-${index}`, 1, 'window')
+      ),
+      makeTab('after', 2),
+    ];
+
+    expect(ids(await takePacedBatch(tabs, 0))).toEqual([
+      'window-0',
+      'window-1',
+      'window-2',
+      'window-3',
+      'window-4',
+    ]);
+    expect(pauseWakes).toHaveBeenCalledWith(60_000, 1);
+  });
+
+  it('never splits a window across passes', async () => {
+    delaySettings = { wakePacing: 'perMinute', tabsPerMinute: 4 };
+    let remaining = [
+      makeTab('first', 1),
+      ...['a', 'b', 'c'].map((id) => makeTab(`one-${id}`, 2, 'one')),
+      ...['a', 'b'].map((id) => makeTab(`two-${id}`, 3, 'two')),
+      makeTab('last', 4),
+    ];
+    const batches: string[][] = [];
+
+    while (remaining.length > 0) {
+      const batch = await takePacedBatch(remaining, 0);
+      batches.push(ids(batch));
+      remaining = remaining.filter((tab) => !batch.includes(tab));
+    }
+
+    expect(batches).toEqual([
+      ['first', 'one-a', 'one-b', 'one-c'],
+      ['two-a', 'two-b', 'last'],
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { DelayedTab } from '@types';
+import { sanitizeDelaySettings } from '@utils/validation';
+
+import { pauseWakes } from './wakeHold';
+
+const PACING_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Splits due tabs into units that wake together: a whole window session or
+ * a single tab
+ */
+function groupWakeUnits(dueTabs: DelayedTab[]): DelayedTab[][] {
+  const units: DelayedTab[][] = [];
+  const sessions = new Map<string, DelayedTab[]>();
+
+  for (const tab of dueTabs) {
+    if (!tab.windowSessionId) {
+      units.push([tab]);
+      continue;
+    }
+
+    const key = `${tab.windowSessionId}:${tab.wakeTime}`;
+    const session = sessions.get(key);
+    if (session) {
+      session.push(tab);
+    } else {
+      const unit = [tab];
+      sessions.set(key, unit);
+      units.push(unit);
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Picks the due tabs to wake in this pass. With "per minute" pacing it takes
+ * at most tabsPerMinute tabs, earliest first, and holds the rest for a
+ * minute. Windows are never split, so one larger than the limit still wakes
+ * in a single pass.
+ */
+export default async function takePacedBatch(
+  dueTabs: DelayedTab[],
+  now: number = Date.now()
+): Promise<DelayedTab[]> {
+  const { delaySettings } = await chrome.storage.local.get('delaySettings');
+  const { wakePacing, tabsPerMinute = 5 } =
+    sanitizeDelaySettings(delaySettings);
+
+  if (wakePacing !== 'perMinute' || dueTabs.length <= tabsPerMinute) {
+    return dueTabs;
+  }
+
+  const units = groupWakeUnits(
+    [...dueTabs].sort((a, b) => a.wakeTime - b.wakeTime)
+  );
+  const batch: DelayedTab[] = [];
+
+  for (const unit of units) {
+    if (batch.length > 0 && batch.length + unit.length > tabsPerMinute) {
+      break;
+    }
+    batch.push(...unit);
+  }
+
+  if (batch.length < dueTabs.length) {
+    await pauseWakes(now + PACING_INTERVAL_MS, dueTabs.length - batch.length);
+  }
+
+  return batch;
+}
@@ -6,7 +6,15 @@ const manifest: ManifestV3Export = {
   version: '1.1.2',
   description: '__MSG_appDesc__',
   default_locale: 'en',
-  permissions: ['storage', 'tabs', 'alarms', 'notifications', 'contextMenus'],
+  permissions: [
+    'storage',
+    'tabs',
+    'tabGroups',
+    'alarms',
+    'notifications',
+    'contextMenus',
+    'idle',
+  ],
   action: {
     default_popup: 'public/html/popup.html',
     default_icon: {
@@ -27,6 +35,28 @@ const manifest: ManifestV3Export = {
     '128': 'icons/icon128.png',
   },
   options_page: 'public/html/options.html',
+  omnibox: { keyword: 'dl' },
+  commands: {
+    'delay-later-today': {
+      suggested_key: { default: 'Alt+Shift+L' },
+      description: '__MSG_commandLaterToday__',
+    },
+    'delay-tomorrow': {
+      suggested_key: { default: 'Alt+Shift+T' },
+      description: '__MSG_commandTomorrow__',
+    },
+    'delay-next-week': {
+      suggested_key: { default: 'Alt+Shift+W' },
+      description: '__MSG_commandNextWeek__',
+    },
+    'delay-someday': {
+      suggested_key: { default: 'Alt+Shift+S' },
+      description: '__MSG_commandSomeday__',
+    },
+    'open-custom-delay': {
+      description: '__MSG_commandCustomDelay__',
+    },
+  },
 };
 
 export default manifest;
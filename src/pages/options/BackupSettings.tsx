@@ -0,0 +1,102 @@
+import { DelayoBackup, RestoreMode } from '@types';
+import sendBackgroundMessage from '@utils/sendBackgroundMessage';
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+interface BackupSettingsProps {
+  onRestored: () => void;
+}
+
+function BackupSettings({
+  onRestored,
+}: BackupSettingsProps): React.ReactElement {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [message, setMessage] = useState<string | null>(null);
+  const { t, i18n } = useTranslation();
+
+  const exportBackup = async (): Promise<void> => {
+    try {
+      const backup = await sendBackgroundMessage({ action: 'exportBackup' });
+      const blob = new Blob([JSON.stringify(backup, null, 2)], {
+        type: 'application/json',
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `delayo-backup-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setMessage(t('settings.backup.exportFailed'));
+    }
+  };
+
+  const restoreBackup = async (file: File | undefined): Promise<void> => {
+    if (!file) return;
+    try {
+      const backup = JSON.parse(await file.text()) as DelayoBackup;
+      const summary = await sendBackgroundMessage({
+        action: 'restoreBackup',
+        backup,
+        mode,
+      });
+      setMessage(t('settings.backup.restored', { ...summary }));
+
+      const { savedLanguage } = await chrome.storage.local.get('savedLanguage');
+      if (savedLanguage && savedLanguage !== i18n.language) {
+        await i18n.changeLanguage(savedLanguage);
+      }
+      onRestored();
+    } catch (error) {
+      setMessage(
+        t('settings.backup.restoreFailed', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  };
+
+  return (
+    <div className='card mx-auto mt-6 w-full max-w-4xl border border-base-300 bg-base-300 shadow-sm transition-shadow duration-300 hover:shadow-md'>
+      <div className='card-body p-6 sm:p-8'>
+        <h2 className='card-title mb-4'>{t('settings.backup.title')}</h2>
+        <div className='flex flex-wrap items-center gap-2'>
+          <button
+            type='button'
+            className='btn btn-outline btn-sm'
+            onClick={exportBackup}
+          >
+            {t('settings.backup.export')}
+          </button>
+          <select
+            className='select select-bordered select-sm'
+            value={mode}
+            onChange={(e) => setMode(e.target.value as RestoreMode)}
+            aria-label={t('settings.backup.mode')}
+          >
+            <option value='merge'>{t('settings.backup.merge')}</option>
+            <option value='replace'>{t('settings.backup.replace')}</option>
+          </select>
+          <label className='btn btn-outline btn-sm'>
+            {t('settings.backup.restore')}
+            <input
+              type='file'
+              accept='.json,application/json'
+              className='hidden'
+              onChange={(e) => {
+                restoreBackup(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        <label className='label'>
+          <span className='label-text-alt'>{t('settings.backup.hint')}</span>
+        </label>
+        {message && <div className='mt-2 text-sm'>{message}</div>}
+      </div>
+    </div>
+  );
+}
+
+export default BackupSettings;
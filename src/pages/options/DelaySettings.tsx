@@ -1,3 +1,18 @@
+import {
+  CatchUpPolicy,
+  DelaySettings,
+  QuietHoursRange,
+  RestoreTarget,
+  SyncStatus,
+  WakePacing,
+  WorkSchedule,
+} from '@types';
+import { parseIcsHolidays } from '@utils/ics';
+import {
+  DEFAULT_DELAY_SETTINGS,
+  DEFAULT_WORK_SCHEDULE,
+  sanitizeDelaySettings,
+} from '@utils/validation';
 import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
@@ -12,34 +27,8 @@ const getSelectClasses = (isPopup: boolean): string => {
   return `select select-bordered ${isPopup ? 'rounded-lg bg-base-100/70 shadow-sm transition-all duration-200 hover:bg-base-100' : ''}`;
 };
 
-interface DelaySettings {
-  laterToday: number; // hours
-  tonightTime: string; // format HH:MM
-  tomorrowTime: string; // format HH:MM
-  weekendDay: 'saturday' | 'sunday';
-  weekendTime: string; // format HH:MM
-  nextWeekSameDay: boolean; // if true, same day of week; if false, specific day of week
-  nextWeekDay: number; // 0-6 (0 = Sunday, 1 = Monday, etc.)
-  nextWeekTime: string; // format HH:MM
-  nextMonthSameDay: boolean; // if true, same day of month; if false, same day of week
-  somedayMinMonths: number; // minimum months for "Someday"
-  somedayMaxMonths: number; // maximum months for "Someday"
-}
-
 // Default values for settings
-const defaultSettings: DelaySettings = {
-  laterToday: 3,
-  tonightTime: '18:00',
-  tomorrowTime: '09:00',
-  weekendDay: 'saturday',
-  weekendTime: '09:00',
-  nextWeekSameDay: false,
-  nextWeekDay: 1, // Monday
-  nextWeekTime: '09:00',
-  nextMonthSameDay: true,
-  somedayMinMonths: 3,
-  somedayMaxMonths: 12,
-};
+const defaultSettings: DelaySettings = DEFAULT_DELAY_SETTINGS;
 
 interface DelaySettingsComponentProps {
   isPopup?: boolean;
@@ -49,6 +38,8 @@ function DelaySettingsComponent({ isPopup = false }: DelaySettingsComponentProps
   const [settings, setSettings] = useState<DelaySettings>(defaultSettings);
   const [loading, setLoading] = useState(true);
   const [saved, setSaved] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [holidayImportFailed, setHolidayImportFailed] = useState(false);
   const { t } = useTranslation();
 
   useEffect(() => {
@@ -57,7 +48,7 @@ function DelaySettingsComponent({ isPopup = false }: DelaySettingsComponentProps
         setLoading(true);
         const { delaySettings = defaultSettings } =
           await chrome.storage.local.get('delaySettings');
-        setSettings(delaySettings);
+        setSettings(sanitizeDelaySettings(delaySettings));
         } catch (error) {
           // Handle error while loading settings
         } finally {
@@ -68,6 +59,25 @@ function DelaySettingsComponent({ isPopup = false }: DelaySettingsComponentProps
     loadSettings();
   }, []);
 
+  useEffect(() => {
+    const loadSyncStatus = async (): Promise<void> => {
+      const { syncStatus: status } = await chrome.storage.local.get('syncStatus');
+      setSyncStatus(status ?? null);
+    };
+    const handleStorageChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ): void => {
+      if (areaName === 'local' && changes.syncStatus) {
+        setSyncStatus(changes.syncStatus.newValue ?? null);
+      }
+    };
+
+    loadSyncStatus();
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+  }, []);
+
   // Save settings to local storage
   const saveSettings = async (): Promise<void> => {
     try {
@@ -83,6 +93,49 @@ function DelaySettingsComponent({ isPopup = false }: DelaySettingsComponentProps
     setSettings(defaultSettings);
   };
 
+  const weekdayKeys = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+  // Each weekday holds at most one quiet range in this form
+  const getQuietRange = (day: number): QuietHoursRange | undefined =>
+    settings.quietHours?.find((range) => range.day === day);
+
+  const updateQuietRange = (day: number, range: QuietHoursRange | null): void => {
+    const otherRanges = (settings.quietHours ?? []).filter((item) => item.day !== day);
+    updateSetting(
+      'quietHours',
+      range ? [...otherRanges, range].sort((a, b) => a.day - b.day) : otherRanges
+    );
+  };
+
+  const workSchedule = settings.workSchedule ?? DEFAULT_WORK_SCHEDULE;
+
+  const updateWorkSchedule = (changes: Partial<WorkSchedule>): void => {
+    updateSetting('workSchedule', { ...workSchedule, ...changes });
+  };
+
+  const toggleWorkingDay = (day: number): void => {
+    const { workingDays } = workSchedule;
+    updateWorkSchedule({
+      workingDays: workingDays.includes(day)
+        ? workingDays.filter((item) => item !== day)
+        : [...workingDays, day].sort(),
+    });
+  };
+
+  const importHolidays = async (file: File | undefined): Promise<void> => {
+    if (!file) return;
+    try {
+      const holidays = parseIcsHolidays(await file.text());
+      updateWorkSchedule({
+        holidays: [...new Set([...workSchedule.holidays, ...holidays])].sort(),
+      });
+      setHolidayImportFailed(false);
+    } catch (error) {
+      console.error('Error importing holidays:', error);
+      setHolidayImportFailed(true);
+    }
+  };
+
   // Update a specific delay setting value
   const updateSetting = <K extends keyof DelaySettings>(
     key: K,
@@ -334,6 +387,318 @@ function DelaySettingsComponent({ isPopup = false }: DelaySettingsComponentProps
               </div>
             </div>
           </div>
+
+          {/* Time Zone */}
+          <div className='form-control'>
+            <label className='label'>
+              <span className='label-text font-medium'>{t('settings.timeZone')}</span>
+            </label>
+            <div className='flex flex-col'>
+              <label className='label cursor-pointer justify-start'>
+                <input
+                  type='radio'
+                  name='timeZoneMode'
+                  className={getRadioClasses(isPopup)}
+                  checked={settings.timeZoneMode !== 'current'}
+                  onChange={() => updateSetting('timeZoneMode', 'original')}
+                />
+                <span className='label-text ml-2'>{t('settings.timeZoneOriginal')}</span>
+              </label>
+              <label className='label cursor-pointer justify-start'>
+                <input
+                  type='radio'
+                  name='timeZoneMode'
+                  className={getRadioClasses(isPopup)}
+                  checked={settings.timeZoneMode === 'current'}
+                  onChange={() => updateSetting('timeZoneMode', 'current')}
+                />
+                <span className='label-text ml-2'>{t('settings.timeZoneCurrent')}</span>
+              </label>
+            </div>
+          </div>
+
+          {/* Missed While Away */}
+          <div className='form-control'>
+            <label className='label'>
+              <span className='label-text font-medium'>{t('settings.catchUpPolicy')}</span>
+            </label>
+            <select
+              className={`${getSelectClasses(isPopup)} w-full max-w-72`}
+              value={settings.catchUpPolicy ?? 'openAll'}
+              onChange={(e) =>
+                updateSetting('catchUpPolicy', e.target.value as CatchUpPolicy)
+              }
+            >
+              <option value='openAll'>{t('settings.catchUp.openAll')}</option>
+              <option value='missedWindow'>{t('settings.catchUp.missedWindow')}</option>
+              <option value='summary'>{t('settings.catchUp.summary')}</option>
+              <option value='skipRecurring'>{t('settings.catchUp.skipRecurring')}</option>
+            </select>
+          </div>
+
+          {/* Restore Target */}
+          <div className='form-control'>
+            <label className='label'>
+              <span className='label-text font-medium'>{t('settings.restoreTarget')}</span>
+            </label>
+            <select
+              className={`${getSelectClasses(isPopup)} w-full max-w-72`}
+              value={settings.restoreTarget ?? 'originalWindow'}
+              onChange={(e) =>
+                updateSetting('restoreTarget', e.target.value as RestoreTarget)
+              }
+            >
+              <option value='originalWindow'>{t('settings.restore.originalWindow')}</option>
+              <option value='currentWindow'>{t('settings.restore.currentWindow')}</option>
+              <option value='newWindow'>{t('settings.restore.newWindow')}</option>
+              <option value='backgroundTab'>{t('settings.restore.backgroundTab')}</option>
+            </select>
+          </div>
+
+          {/* Work Schedule */}
+          <div className='form-control'>
+            <label className='label cursor-pointer justify-start'>
+              <input
+                type='checkbox'
+                className='checkbox checkbox-primary'
+                checked={workSchedule.enabled}
+                onChange={(e) => updateWorkSchedule({ enabled: e.target.checked })}
+              />
+              <span className='label-text ml-2 font-medium'>{t('settings.work.enabled')}</span>
+            </label>
+            {workSchedule.enabled && (
+              <div className='space-y-3 pl-2'>
+                <div className='flex flex-wrap gap-2'>
+                  {weekdayKeys.map((weekday, day) => (
+                    <label key={weekday} className='label cursor-pointer'>
+                      <input
+                        type='checkbox'
+                        className='checkbox checkbox-primary checkbox-sm'
+                        checked={workSchedule.workingDays.includes(day)}
+                        onChange={() => toggleWorkingDay(day)}
+                      />
+                      <span className='label-text ml-1'>{t(`popup.weekdays.${weekday}`)}</span>
+                    </label>
+                  ))}
+                </div>
+                <div className='flex items-center gap-2'>
+                  <input
+                    type='time'
+                    className={`${getInputClasses(isPopup)} w-32`}
+                    value={workSchedule.startTime}
+                    onChange={(e) => updateWorkSchedule({ startTime: e.target.value })}
+                    aria-label={t('settings.work.start')}
+                  />
+                  <span>–</span>
+                  <input
+                    type='time'
+                    className={`${getInputClasses(isPopup)} w-32`}
+                    value={workSchedule.endTime}
+                    onChange={(e) => updateWorkSchedule({ endTime: e.target.value })}
+                    aria-label={t('settings.work.end')}
+                  />
+                </div>
+                <div className='flex items-center gap-2'>
+                  <label className='btn btn-outline btn-sm'>
+                    {t('settings.work.importHolidays')}
+                    <input
+                      type='file'
+                      accept='.ics,text/calendar'
+                      className='hidden'
+                      onChange={(e) => {
+                        importHolidays(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  <span className='text-sm'>
+                    {t('settings.work.holidayCount', { count: workSchedule.holidays.length })}
+                  </span>
+                  {workSchedule.holidays.length > 0 && (
+                    <button
+                      type='button'
+                      className='btn btn-ghost btn-sm'
+                      onClick={() => updateWorkSchedule({ holidays: [] })}
+                    >
+                      {t('settings.work.clearHolidays')}
+                    </button>
+                  )}
+                </div>
+                {holidayImportFailed && (
+                  <span className='text-sm text-error'>
+                    {t('settings.work.importFailed')}
+                  </span>
+                )}
+                <label className='label'>
+                  <span className='label-text-alt'>{t('settings.work.hint')}</span>
+                </label>
+              </div>
+            )}
+          </div>
+
+          {/* Quiet Hours */}
+          <div className='form-control'>
+            <label className='label'>
+              <span className='label-text font-medium'>{t('settings.quietHours')}</span>
+            </label>
+            <div className='space-y-2'>
+              {weekdayKeys.map((weekday, day) => {
+                const range = getQuietRange(day);
+                return (
+                  <div key={weekday} className='flex items-center gap-2'>
+                    <label className='label w-36 cursor-pointer justify-start'>
+                      <input
+                        type='checkbox'
+                        className='checkbox checkbox-primary checkbox-sm'
+                        checked={Boolean(range)}
+                        onChange={(e) =>
+                          updateQuietRange(
+                            day,
+                            e.target.checked ? { day, start: '22:00', end: '07:00' } : null
+                          )
+                        }
+                      />
+                      <span className='label-text ml-2'>{t(`popup.weekdays.${weekday}`)}</span>
+                    </label>
+                    {range && (
+                      <>
+                        <input
+                          type='time'
+                          className={`${getInputClasses(isPopup)} w-32`}
+                          value={range.start}
+                          onChange={(e) => updateQuietRange(day, { ...range, start: e.target.value })}
+                          aria-label={t('settings.quietStart')}
+                        />
+                        <span>–</span>
+                        <input
+                          type='time'
+                          className={`${getInputClasses(isPopup)} w-32`}
+                          value={range.end}
+                          onChange={(e) => updateQuietRange(day, { ...range, end: e.target.value })}
+                          aria-label={t('settings.quietEnd')}
+                        />
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <label className='label'>
+              <span className='label-text-alt'>{t('settings.quietHoursHint')}</span>
+            </label>
+          </div>
+
+          {/* Fullscreen */}
+          <div className='form-control'>
+            <label className='label cursor-pointer justify-start'>
+              <input
+                type='checkbox'
+                className='checkbox checkbox-primary'
+                checked={settings.deferWhileFullscreen ?? true}
+                onChange={(e) =>
+                  updateSetting('deferWhileFullscreen', e.target.checked)
+                }
+              />
+              <span className='label-text ml-2'>{t('settings.deferWhileFullscreen')}</span>
+            </label>
+          </div>
+
+          {/* Wake Pacing */}
+          <div className='form-control'>
+            <label className='label'>
+              <span className='label-text font-medium'>{t('settings.wakePacing')}</span>
+            </label>
+            <select
+              className={`${getSelectClasses(isPopup)} w-full max-w-72`}
+              value={settings.wakePacing ?? 'immediate'}
+              onChange={(e) =>
+                updateSetting('wakePacing', e.target.value as WakePacing)
+              }
+            >
+              <option value='immediate'>{t('settings.pacing.immediate')}</option>
+              <option value='perMinute'>{t('settings.pacing.perMinute')}</option>
+              <option value='lazy'>{t('settings.pacing.lazy')}</option>
+            </select>
+            {settings.wakePacing === 'perMinute' && (
+              <div className='mt-2 flex items-center'>
+                <input
+                  type='number'
+                  className={`${getInputClasses(isPopup)} w-24`}
+                  min='1'
+                  max='60'
+                  value={settings.tabsPerMinute ?? 5}
+                  onChange={(e) =>
+                    updateSetting('tabsPerMinute', parseInt(e.target.value, 10) || 1)
+                  }
+                />
+                <span className='ml-2'>{t('settings.tabsPerMinute')}</span>
+              </div>
+            )}
+          </div>
+
+          {/* When I'm back */}
+          <div className='form-control'>
+            <label className='label'>
+              <span className='label-text font-medium'>{t('settings.idleMinutes')}</span>
+            </label>
+            <div className='flex items-center'>
+              <input
+                type='number'
+                className={`${getInputClasses(isPopup)} w-24`}
+                min='1'
+                max='240'
+                value={settings.idleMinutes ?? 15}
+                onChange={(e) =>
+                  updateSetting('idleMinutes', parseInt(e.target.value, 10) || 1)
+                }
+              />
+              <span className='ml-2'>{t('settings.idleMinutesUnit')}</span>
+            </div>
+            <label className='label'>
+              <span className='label-text-alt'>{t('settings.idleMinutesHint')}</span>
+            </label>
+          </div>
+
+          {/* Wake Notifications */}
+          <div className='form-control'>
+            <label className='label cursor-pointer justify-start'>
+              <input
+                type='checkbox'
+                className='checkbox checkbox-primary'
+                checked={settings.keepWakeNotifications ?? false}
+                onChange={(e) =>
+                  updateSetting('keepWakeNotifications', e.target.checked)
+                }
+              />
+              <span className='label-text ml-2'>{t('settings.keepWakeNotifications')}</span>
+            </label>
+          </div>
+
+          {/* Sync */}
+          <div className='form-control'>
+            <label className='label cursor-pointer justify-start'>
+              <input
+                type='checkbox'
+                className='checkbox checkbox-primary'
+                checked={settings.syncEnabled ?? false}
+                onChange={(e) => updateSetting('syncEnabled', e.target.checked)}
+              />
+              <span className='label-text ml-2'>{t('settings.sync.enabled')}</span>
+            </label>
+            <label className='label'>
+              <span className='label-text-alt'>{t('settings.sync.hint')}</span>
+            </label>
+            {settings.syncEnabled && syncStatus && (
+              <span className={`text-sm ${syncStatus.error ? 'text-error' : ''}`}>
+                {syncStatus.error
+                  ? t('settings.sync.error', { error: syncStatus.error })
+                  : syncStatus.lastSyncedAt &&
+                    t('settings.sync.lastSynced', {
+                      time: new Date(syncStatus.lastSyncedAt).toLocaleString(),
+                    })}
+              </span>
+            )}
+          </div>
         </div>
 
         <div className='card-actions mt-6 justify-end'>
@@ -1,5 +1,11 @@
-import { DelayedTab } from '@types';
-import normalizeDelayedTabs from '@utils/normalizeDelayedTabs';
+import { DelayedTab, DelayedTabQuery } from '@types';
+import getUrlHost from '@utils/getUrlHost';
+import {
+  exportDelayedTabsToIcs,
+  importDelayedTabsFromIcs,
+} from '@utils/icsDelayedTabs';
+import isTimedTab from '@utils/isTimedTab';
+import sendBackgroundMessage from '@utils/sendBackgroundMessage';
 import useTheme from '@utils/useTheme';
 import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
@@ -7,6 +13,7 @@ import DonationButton from '../../components/DonationButton';
 import LanguageSelector from '../../components/LanguageSelector';
 import '../../i18n';
 
+import BackupSettings from './BackupSettings';
 import DelaySettingsComponent from './DelaySettings';
 import './options.css';
 
@@ -15,19 +22,33 @@ function Options(): React.ReactElement {
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'tabs' | 'settings'>('tabs');
   const [selectedTabs, setSelectedTabs] = useState<string[]>([]);
+  const [calendarMessage, setCalendarMessage] = useState<string | null>(null);
+  const [lateOnly, setLateOnly] = useState(false);
+  // Host picked from a row to list only that site's tabs
+  const [siteFilter, setSiteFilter] = useState<string | null>(null);
+  // Bumped after a backup restore so the settings form reloads its values
+  const [restoreCount, setRestoreCount] = useState(0);
   const { theme, toggleTheme } = useTheme();
   const { t, i18n } = useTranslation();
 
+  const isFiltered = lateOnly || siteFilter !== null;
+
   const loadDelayedTabs = async (): Promise<void> => {
     try {
       setLoading(true);
-      const { delayedTabs = [] } =
-        await chrome.storage.local.get('delayedTabs');
-      const normalizedTabs = normalizeDelayedTabs(delayedTabs);
-      const sortedTabs = [...normalizedTabs].sort(
-        (a, b) => a.wakeTime - b.wakeTime
+      const query: DelayedTabQuery = {};
+      if (lateOnly) {
+        query.dueBefore = Date.now();
+      }
+      if (siteFilter !== null) {
+        query.urlHost = siteFilter;
+      }
+      setDelayedTabs(
+        await sendBackgroundMessage({
+          action: 'list',
+          query: isFiltered ? query : undefined,
+        })
       );
-      setDelayedTabs(sortedTabs);
     } catch (error) {
       // Handle error while loading delayed tabs
     } finally {
@@ -36,19 +57,15 @@ function Options(): React.ReactElement {
   };
 
   useEffect(() => {
+    setSelectedTabs([]);
     loadDelayedTabs();
-  }, []);
+  }, [lateOnly, siteFilter]);
 
   const wakeTabNow = async (tab: DelayedTab): Promise<void> => {
     try {
-      if (tab.url) {
-        await chrome.tabs.create({ url: tab.url });
-        const updatedTabs = delayedTabItems.filter((item) => item.id !== tab.id);
-        await chrome.storage.local.set({ delayedTabs: updatedTabs });
-        await chrome.alarms.clear(`delayed-tab-${tab.id}`);
-        setDelayedTabs(updatedTabs);
-        setSelectedTabs(selectedTabs.filter(id => id !== tab.id));
-      }
+      await sendBackgroundMessage({ action: 'wake', tabIds: [tab.id] });
+      await loadDelayedTabs();
+      setSelectedTabs(selectedTabs.filter(id => id !== tab.id));
     } catch (error) {
       // Handle error while waking the tab immediately
     }
@@ -56,10 +73,8 @@ function Options(): React.ReactElement {
 
   const removeTab = async (tab: DelayedTab): Promise<void> => {
     try {
-      const updatedTabs = delayedTabItems.filter((item) => item.id !== tab.id);
-      await chrome.storage.local.set({ delayedTabs: updatedTabs });
-      await chrome.alarms.clear(`delayed-tab-${tab.id}`);
-      setDelayedTabs(updatedTabs);
+      await sendBackgroundMessage({ action: 'remove', tabIds: [tab.id] });
+      setDelayedTabs(delayedTabItems.filter((item) => item.id !== tab.id));
       setSelectedTabs(selectedTabs.filter(id => id !== tab.id));
   } catch (error) {
     // Handle error while removing a tab
@@ -106,7 +121,9 @@ function Options(): React.ReactElement {
       <div className='card-body text-center'>
         <h2 className='card-title justify-center'>{t('manageTabs.noTabs')}</h2>
         <p>
-          {t('manageTabs.noDelayedTabs')}
+          {isFiltered
+            ? t('manageTabs.noMatchingTabs')
+            : t('manageTabs.noDelayedTabs')}
         </p>
       </div>
     </div>
@@ -114,22 +131,62 @@ function Options(): React.ReactElement {
 
   const wakeSelectedTabs = async (): Promise<void> => {
     try {
-      const tabsToWake = delayedTabItems.filter(tab => selectedTabs.includes(tab.id));
-      for (const tab of tabsToWake) {
-        if (tab.url) {
-          await chrome.tabs.create({ url: tab.url });
-          await chrome.alarms.clear(`delayed-tab-${tab.id}`);
-        }
-      }
-      const updatedTabs = delayedTabItems.filter(tab => !selectedTabs.includes(tab.id));
-      await chrome.storage.local.set({ delayedTabs: updatedTabs });
-      setDelayedTabs(updatedTabs);
+      await sendBackgroundMessage({ action: 'wake', tabIds: selectedTabs });
+      await loadDelayedTabs();
       setSelectedTabs([]);
   } catch (error) {
     // Handle error while waking selected tabs
   }
   };
 
+  // Exports every delayed tab, whatever the list is filtered to
+  const exportCalendar = async (): Promise<void> => {
+    try {
+      const allTabs = await sendBackgroundMessage({ action: 'list' });
+      const count = allTabs.filter(isTimedTab).length;
+      const skipped = allTabs.length - count;
+
+      const blob = new Blob([exportDelayedTabsToIcs(allTabs)], {
+        type: 'text/calendar',
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'delayo.ics';
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setCalendarMessage(
+        skipped > 0
+          ? t('manageTabs.calendarExportSkipped', { count, skipped })
+          : t('manageTabs.calendarExported', { count })
+      );
+    } catch (error) {
+      setCalendarMessage(t('manageTabs.calendarExportFailed'));
+    }
+  };
+
+  const importCalendar = async (file: File | undefined): Promise<void> => {
+    if (!file) return;
+    try {
+      const importedTabs = await sendBackgroundMessage({
+        action: 'import',
+        tabs: importDelayedTabsFromIcs(await file.text()),
+      });
+      setCalendarMessage(
+        t('manageTabs.calendarImported', { count: importedTabs.length })
+      );
+      await loadDelayedTabs();
+    } catch (error) {
+      setCalendarMessage(t('manageTabs.calendarImportFailed'));
+    }
+  };
+
+  const handleRestored = (): void => {
+    setRestoreCount((count) => count + 1);
+    loadDelayedTabs();
+  };
+
   const toggleTabSelection = (tabId: string): void => {
     setSelectedTabs(prev =>
       prev.includes(tabId)
@@ -202,11 +259,30 @@ function Options(): React.ReactElement {
                         {tab.title || tab.url || 'Unknown tab'}
                       </div>
                     </div>
+                    {getUrlHost(tab.url) && siteFilter === null && (
+                      <button
+                        type='button'
+                        className='link text-xs opacity-70'
+                        title={t('manageTabs.showSite')}
+                        onClick={() => setSiteFilter(getUrlHost(tab.url) ?? null)}
+                      >
+                        {getUrlHost(tab.url)}
+                      </button>
+                    )}
                   </td>
                   <td className='whitespace-normal'>
-                    {formatDate(tab.wakeTime)}
+                    {isTimedTab(tab)
+                      ? formatDate(tab.wakeTime)
+                      : t(`manageTabs.triggers.${tab.trigger}`)}
+                  </td>
+                  <td>
+                    {isTimedTab(tab) && calculateTimeLeft(tab.wakeTime)}
+                    {isTimedTab(tab) && tab.wakeTime <= Date.now() && (
+                      <span className='badge badge-warning badge-sm ml-2'>
+                        {t('manageTabs.late')}
+                      </span>
+                    )}
                   </td>
-                  <td>{calculateTimeLeft(tab.wakeTime)}</td>
                   <td>
                     <div className='flex space-x-2'>
                       <button
@@ -246,6 +322,52 @@ function Options(): React.ReactElement {
     </div>
   );
 
+  const renderCalendarActions = (): React.ReactElement => (
+    <div className='mb-4 flex flex-wrap items-center justify-end gap-2'>
+      <label className='label cursor-pointer gap-2'>
+        <input
+          type='checkbox'
+          className='checkbox checkbox-sm'
+          checked={lateOnly}
+          onChange={(e) => setLateOnly(e.target.checked)}
+        />
+        <span className='label-text'>{t('manageTabs.lateOnly')}</span>
+      </label>
+      {siteFilter !== null && (
+        <button
+          type='button'
+          className='btn btn-ghost btn-sm'
+          title={t('manageTabs.showAllSites')}
+          onClick={() => setSiteFilter(null)}
+        >
+          {siteFilter} ✕
+        </button>
+      )}
+      {calendarMessage && <span className='text-sm'>{calendarMessage}</span>}
+      <button
+        type='button'
+        className='btn btn-outline btn-sm'
+        disabled={!isFiltered && delayedTabItems.length === 0}
+        title={t('manageTabs.exportCalendarHint')}
+        onClick={exportCalendar}
+      >
+        {t('manageTabs.exportCalendar')}
+      </button>
+      <label className='btn btn-outline btn-sm'>
+        {t('manageTabs.importCalendar')}
+        <input
+          type='file'
+          accept='.ics,text/calendar'
+          className='hidden'
+          onChange={(e) => {
+            importCalendar(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+  );
+
   let content: React.ReactElement;
   if (loading) {
     content = renderLoading();
@@ -295,7 +417,15 @@ function Options(): React.ReactElement {
         </a>
       </div>
 
-      {activeTab === 'tabs' ? content : <div className="settings-width-850"><DelaySettingsComponent isPopup={false} /></div>}
+      {activeTab === 'tabs' && renderCalendarActions()}
+      {activeTab === 'tabs' ? (
+        content
+      ) : (
+        <div className='settings-width-850'>
+          <DelaySettingsComponent key={restoreCount} isPopup={false} />
+          <BackupSettings onRestored={handleRestored} />
+        </div>
+      )}
 
       <div className="form-control mt-4">
         <label className="label">
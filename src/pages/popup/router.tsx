@@ -5,7 +5,8 @@ import {
   createRouter,
   RouterProvider,
 } from '@tanstack/react-router';
-import React from 'react';
+import { POPUP_ROUTE_KEY } from '@utils/popupHandoff';
+import React, { useEffect } from 'react';
 
 import CustomDelayView from './views/CustomDelayView';
 import MainView from './views/MainView';
@@ -74,5 +75,21 @@ declare module '@tanstack/react-router' {
 }
 
 export default function Router() {
+  useEffect(() => {
+    const openRequestedRoute = async (): Promise<void> => {
+      if (typeof chrome === 'undefined' || !chrome.storage?.session) {
+        return;
+      }
+      const { [POPUP_ROUTE_KEY]: route } =
+        await chrome.storage.session.get(POPUP_ROUTE_KEY);
+      if (typeof route === 'string') {
+        await chrome.storage.session.remove(POPUP_ROUTE_KEY);
+        router.navigate({ to: route });
+      }
+    };
+
+    openRequestedRoute();
+  }, []);
+
   return <RouterProvider router={router} />;
 }
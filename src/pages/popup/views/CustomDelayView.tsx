@@ -1,16 +1,29 @@
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { Link } from '@tanstack/react-router';
+import { DelaySettings, DelayTarget, TimeZoneMode } from '@types';
 import React, { useEffect, useState } from 'react';
-import generateUniqueTabId from '@utils/generateUniqueTabId';
+import getWindowLayout from '@utils/getWindowLayout';
+import parseDelayInput from '@utils/parseDelayInput';
+import { LINK_TARGET_KEY } from '@utils/popupHandoff';
+import sendBackgroundMessage from '@utils/sendBackgroundMessage';
+import toDelayTargets from '@utils/toDelayTargets';
+import { DEFAULT_DELAY_SETTINGS, sanitizeDelaySettings } from '@utils/validation';
 import { useTranslation } from 'react-i18next';
 
 function CustomDelayView(): React.ReactElement {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const [activeTab, setActiveTab] = useState<chrome.tabs.Tab | null>(null);
   const [highlightedTabs, setHighlightedTabs] = useState<chrome.tabs.Tab[]>([]);
   const [allWindowTabs, setAllWindowTabs] = useState<chrome.tabs.Tab[]>([]);
-  const [selectedMode, setSelectedMode] = useState<'active' | 'highlighted' | 'window'>('active');
+  const [groupTabs, setGroupTabs] = useState<chrome.tabs.Tab[]>([]);
+  const [groupTitle, setGroupTitle] = useState('');
+  const [selectedMode, setSelectedMode] = useState<'active' | 'highlighted' | 'group' | 'window'>('active');
   const [loading, setLoading] = useState(true);
+  const [timeZoneMode, setTimeZoneMode] = useState<TimeZoneMode>('original');
+  const [linkTarget, setLinkTarget] = useState<DelayTarget | null>(null);
+  const [settings, setSettings] = useState<DelaySettings>(DEFAULT_DELAY_SETTINGS);
+  const [naturalInput, setNaturalInput] = useState('');
+  const [delayError, setDelayError] = useState<string | null>(null);
   const [customDate, setCustomDate] = useState<string>(
     new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 16)
   );
@@ -31,7 +44,20 @@ function CustomDelayView(): React.ReactElement {
           });
           setHighlightedTabs(highlighted);
           
-          const { selectedMode: mainViewMode } = await chrome.storage.local.get('selectedMode');
+          const { selectedMode: mainViewMode, delaySettings } =
+            await chrome.storage.local.get(['selectedMode', 'delaySettings']);
+          if (delaySettings?.timeZoneMode) {
+            setTimeZoneMode(delaySettings.timeZoneMode);
+          }
+          setSettings(sanitizeDelaySettings(delaySettings));
+
+          // Opened from "Delay this link > Custom…" in the context menu
+          const { [LINK_TARGET_KEY]: delayLinkTarget } =
+            await chrome.storage.session.get(LINK_TARGET_KEY);
+          if (delayLinkTarget) {
+            await chrome.storage.session.remove(LINK_TARGET_KEY);
+            setLinkTarget(delayLinkTarget);
+          }
           if (mainViewMode) {
             setSelectedMode(mainViewMode);
           } else if (highlighted.length > 1) {
@@ -44,6 +70,16 @@ function CustomDelayView(): React.ReactElement {
             currentWindow: true,
           });
           setAllWindowTabs(allTabs);
+
+          if (
+            chrome.tabGroups &&
+            tab?.groupId !== undefined &&
+            tab.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE
+          ) {
+            const group = await chrome.tabGroups.get(tab.groupId);
+            setGroupTitle(group.title ?? '');
+            setGroupTabs(await chrome.tabs.query({ groupId: tab.groupId }));
+          }
         } else {
           // Development mode
           const mockTab = {
@@ -73,6 +109,8 @@ function CustomDelayView(): React.ReactElement {
         return activeTab ? [activeTab] : [];
       case 'highlighted':
         return highlightedTabs;
+      case 'group':
+        return groupTabs;
       case 'window':
         return allWindowTabs;
       default:
@@ -80,63 +118,83 @@ function CustomDelayView(): React.ReactElement {
     }
   };
 
-  const handleDelay = async (): Promise<void> => {
-    const tabsToDelay = getTabsToDelay();
-    if (tabsToDelay.length === 0) return;
+  const parsedInput = naturalInput.trim()
+    ? parseDelayInput(naturalInput, settings, new Date(), i18n.language)
+    : null;
+
+  const formatDateTimeLocal = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const year = date.getFullYear();
+    const month = `${date.getMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getDate()}`.padStart(2, '0');
+    const hours = `${date.getHours()}`.padStart(2, '0');
+    const minutes = `${date.getMinutes()}`.padStart(2, '0');
+    return `${year}-${month}-${day}T${hours}:${minutes}`;
+  };
+
+  const handleNaturalInputChange = (value: string): void => {
+    setNaturalInput(value);
+    setDelayError(null);
+    const parsed = parseDelayInput(value, settings, new Date(), i18n.language);
+    if (parsed) {
+      setCustomDate(formatDateTimeLocal(parsed.wakeTime));
+    }
+  };
 
+  // Text that does not parse must not fall back to the date field silently
+  const naturalInputRejected = naturalInput.trim() !== '' && !parsedInput;
+
+  const handleDelay = async (): Promise<void> => {
     const wakeTime = new Date(customDate).getTime();
+    if (Number.isNaN(wakeTime) || wakeTime <= Date.now()) {
+      setDelayError(t('customDelay.invalidWakeTime'));
+      return;
+    }
+    setDelayError(null);
 
-    const windowSessionId =
-      selectedMode === 'window' ? generateUniqueTabId() : undefined;
-
-    if (
-      typeof chrome !== 'undefined' &&
-      chrome.storage &&
-      chrome.storage.local
-    ) {
-      chrome.storage.local.get({ delayedTabs: [] }, async (data) => {
-        const { delayedTabs } = data;
-        const tabIds: number[] = [];
-
-        for (const tab of tabsToDelay) {
-          if (!tab.id) continue;
-
-          const newTabId = generateUniqueTabId();
-
-          const tabInfo = {
-            id: newTabId,
-            url: tab.url,
-            title: tab.title,
-            favicon: tab.favIconUrl,
-            createdAt: Date.now(),
-            wakeTime,
-            windowSessionId,
-            windowIndex: typeof tab.index === 'number' ? tab.index : undefined,
-          };
-
-          delayedTabs.push(tabInfo);
-
-          if (chrome.alarms) {
-            await chrome.alarms.create(`delayed-tab-${tabInfo.id}`, {
-              when: wakeTime,
-            });
-          }
-          
-          tabIds.push(tab.id);
-        }
+    try {
+      if (linkTarget) {
+        await sendBackgroundMessage({
+          action: 'delay',
+          targets: [linkTarget],
+          wakeTime,
+          timeZoneMode,
+        });
+        window.close();
+        return;
+      }
+
+      const tabsToDelay = getTabsToDelay();
+      if (tabsToDelay.length === 0) return;
 
-        await chrome.storage.local.set({ delayedTabs });
+      if (typeof chrome !== 'undefined' && chrome.runtime?.id) {
+        const browserTabs = tabsToDelay.filter((tab) => tab.id);
 
-        if (chrome.tabs && tabIds.length > 0) {
-          await chrome.tabs.remove(tabIds);
+        await sendBackgroundMessage({
+          action: 'delay',
+          targets: await toDelayTargets(browserTabs),
+          wakeTime,
+          asWindow: selectedMode === 'window' || selectedMode === 'group',
+          windowLayout:
+            selectedMode === 'window' && browserTabs.length > 0
+              ? await getWindowLayout(browserTabs[0].windowId)
+              : undefined,
+          timeZoneMode,
+        });
+
+        if (chrome.tabs && browserTabs.length > 0) {
+          await chrome.tabs.remove(browserTabs.map((tab) => tab.id as number));
         }
 
         if (window.close) {
           window.close();
         }
-      });
-    } else {
-      console.log('Development mode - tabs would be delayed:', tabsToDelay);
+      } else {
+        console.log('Development mode - tabs would be delayed:', tabsToDelay);
+      }
+    } catch (error) {
+      console.error('Error delaying tabs:', error);
+      setDelayError(t('customDelay.delayFailed'));
     }
   };
 
@@ -168,7 +226,18 @@ function CustomDelayView(): React.ReactElement {
         <div className='mb-5'>
           <div className='text-sm font-medium text-base-content/80 mb-2'>{t('popup.delay')}:</div>
           <div className='rounded-lg bg-base-100/70 p-4 shadow-sm transition-all duration-200 hover:bg-base-100'>
-            {selectedMode === 'active' && activeTab && (
+            {linkTarget && (
+              <div className='overflow-hidden'>
+                <div className='truncate text-sm font-medium text-base-content/80'>
+                  {linkTarget.title}
+                </div>
+                <div className='truncate text-xs text-base-content/60'>
+                  {linkTarget.url}
+                </div>
+              </div>
+            )}
+
+            {!linkTarget && selectedMode === 'active' && activeTab && (
               <div className='flex items-center'>
                 {activeTab.favIconUrl && (
                   <img
@@ -191,13 +260,19 @@ function CustomDelayView(): React.ReactElement {
               </div>
             )}
             
-            {selectedMode === 'highlighted' && (
+            {!linkTarget && selectedMode === 'highlighted' && (
               <div className='text-sm font-medium text-base-content/80'>
                 {highlightedTabs.length} {highlightedTabs.length === 1 ? t('common.tabs.singular') : t('common.tabs')} {t('popup.selected')}
               </div>
             )}
             
-            {selectedMode === 'window' && (
+            {!linkTarget && selectedMode === 'group' && (
+              <div className='text-sm font-medium text-base-content/80'>
+                {groupTabs.length} {groupTabs.length === 1 ? t('common.tabs.singular') : t('common.tabs')} {t('popup.inGroup', { title: groupTitle || t('popup.untitledGroup') })}
+              </div>
+            )}
+            
+            {!linkTarget && selectedMode === 'window' && (
               <div className='text-sm font-medium text-base-content/80'>
                 {allWindowTabs.length} {allWindowTabs.length === 1 ? t('common.tabs.singular') : t('common.tabs')} {t('popup.inWindow')}
               </div>
@@ -205,6 +280,52 @@ function CustomDelayView(): React.ReactElement {
           </div>
         </div>
 
+        <div className='form-control mb-3'>
+          <label className='label'>
+            <span className='label-text font-medium'>
+              {t('customDelay.naturalLabel')}
+            </span>
+          </label>
+          <input
+            type='text'
+            className='input input-bordered w-full border-none bg-base-100/50 shadow-sm transition-all duration-200 focus:bg-base-100/80'
+            value={naturalInput}
+            onChange={(e) => handleNaturalInputChange(e.target.value)}
+            placeholder={t('customDelay.naturalPlaceholder')}
+          />
+          {naturalInput.trim() && (
+            <div className='mt-2 text-xs'>
+              {parsedInput ? (
+                <>
+                  <div className='text-base-content/70'>
+                    {t('customDelay.preview', {
+                      time: new Date(parsedInput.wakeTime).toLocaleString(
+                        i18n.language,
+                        {
+                          weekday: 'long',
+                          day: 'numeric',
+                          month: 'long',
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        }
+                      ),
+                    })}
+                  </div>
+                  {parsedInput.ambiguous && (
+                    <div className='mt-1 text-warning'>
+                      {t('customDelay.ambiguous')}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className='text-error'>
+                  {t('customDelay.notUnderstood')}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
         <div className='form-control'>
           <label className='label'>
             <span className='label-text font-medium'>
@@ -215,18 +336,29 @@ function CustomDelayView(): React.ReactElement {
             type='datetime-local'
             className='input input-bordered w-full border-none bg-base-100/50 shadow-sm transition-all duration-200 focus:bg-base-100/80'
             value={customDate}
-            onChange={(e) => setCustomDate(e.target.value)}
+            onChange={(e) => {
+              setCustomDate(e.target.value);
+              setDelayError(null);
+            }}
             min={new Date().toISOString().slice(0, 16)}
           />
         </div>
 
+        {delayError && (
+          <p className='mt-3 text-xs text-error'>{delayError}</p>
+        )}
+
         <div className='card-actions mt-6 justify-end'>
           <button
             className='btn btn-primary border-none shadow-sm transition-all duration-200 hover:shadow'
             onClick={handleDelay}
-            disabled={!activeTab || !customDate}
+            disabled={
+              (!activeTab && !linkTarget) ||
+              !customDate ||
+              naturalInputRejected
+            }
           >
-            {t('customDelay.delayTab')}
+            {linkTarget ? t('customDelay.delayLink') : t('customDelay.delayTab')}
           </button>
         </div>
       </div>
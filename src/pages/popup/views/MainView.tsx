@@ -2,47 +2,27 @@
 import { faHourglassHalf } from '@fortawesome/free-solid-svg-icons';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { Link } from '@tanstack/react-router';
-import { DelayOption } from '@types';
+import { DelayOption, DelaySettings } from '@types';
 import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import useTheme from '../../../utils/useTheme';
-import generateUniqueTabId from '@utils/generateUniqueTabId';
-
-interface DelaySettings {
-  laterToday: number; // hours
-  tonightTime: string; // format HH:MM
-  tomorrowTime: string; // format HH:MM
-  weekendDay: 'saturday' | 'sunday';
-  weekendTime: string; // format HH:MM
-  nextWeekSameDay: boolean; // if true, same week day; if false, specific day
-  nextWeekDay: number; // 0-6 (0 = Sunday, 1 = Monday, ...)
-  nextWeekTime: string; // format HH:MM
-  nextMonthSameDay: boolean; // if true, same month day; if false, same week day near the same day
-  somedayMinMonths: number; // min of months for "Someday"
-  somedayMaxMonths: number; // max of months for "Someday"
-}
+import calculatePresetWakeTime from '@utils/calculatePresetWakeTime';
+import getWindowLayout from '@utils/getWindowLayout';
+import sendBackgroundMessage from '@utils/sendBackgroundMessage';
+import toDelayTargets from '@utils/toDelayTargets';
+import { DEFAULT_DELAY_SETTINGS, sanitizeDelaySettings } from '@utils/validation';
 
 function MainView(): React.ReactElement {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const [activeTab, setActiveTab] = useState<chrome.tabs.Tab | null>(null);
   const [highlightedTabs, setHighlightedTabs] = useState<chrome.tabs.Tab[]>([]);
   const [allWindowTabs, setAllWindowTabs] = useState<chrome.tabs.Tab[]>([]);
-  const [selectedMode, setSelectedMode] = useState<'active' | 'highlighted' | 'window'>('active');
+  const [groupTabs, setGroupTabs] = useState<chrome.tabs.Tab[]>([]);
+  const [groupTitle, setGroupTitle] = useState('');
+  const [selectedMode, setSelectedMode] = useState<'active' | 'highlighted' | 'group' | 'window'>('active');
   const [loading, setLoading] = useState(true);
-  const [settings, setSettings] = useState<DelaySettings>({
-    laterToday: 3, // 3 hours later
-    tonightTime: '18:00',
-    tomorrowTime: '09:00',
-    weekendDay: 'saturday',
-    weekendTime: '09:00',
-    nextWeekDay: 1, // Monday
-    nextWeekTime: '09:00',
-    nextMonthSameDay: true,
-    nextWeekSameDay: true,
-    somedayMinMonths: 3, // default min of 3 months for "Someday"
-    somedayMaxMonths: 12, // default - max of 12 months for "Someday"
-  });
+  const [settings, setSettings] = useState<DelaySettings>(DEFAULT_DELAY_SETTINGS);
   const { theme, toggleTheme } = useTheme();
 
   useEffect(() => {
@@ -75,6 +55,17 @@ function MainView(): React.ReactElement {
             currentWindow: true,
           });
           setAllWindowTabs(allTabs);
+
+          // For group - every tab in the active tab's group
+          if (
+            chrome.tabGroups &&
+            tab?.groupId !== undefined &&
+            tab.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE
+          ) {
+            const group = await chrome.tabGroups.get(tab.groupId);
+            setGroupTitle(group.title ?? '');
+            setGroupTabs(await chrome.tabs.query({ groupId: tab.groupId }));
+          }
         } else {
           // dev
           const mockTab = {
@@ -105,9 +96,7 @@ function MainView(): React.ReactElement {
         if (typeof chrome !== 'undefined' && chrome.storage) {
           const { delaySettings } =
             await chrome.storage.local.get('delaySettings');
-          if (delaySettings) {
-            setSettings(delaySettings);
-          }
+          setSettings(sanitizeDelaySettings(delaySettings));
         }
       } catch (error) {
         console.error('Error loading settings:', error);
@@ -117,44 +106,24 @@ function MainView(): React.ReactElement {
     loadSettings();
   }, []);
 
-  const getTimeFromString = (
-    timeString: string
-  ): { hours: number; minutes: number } => {
-    const [hours, minutes] = timeString.split(':').map(Number);
-    return { hours, minutes };
-  };
-
   const delayOptions: DelayOption[] = [
     {
       id: 'later_today',
       label: t('popup.delayOptions.laterToday', { hours: settings.laterToday }),
       hours: settings.laterToday,
+      calculateTime: () => calculatePresetWakeTime('later_today', settings),
     },
     {
       id: 'tonight',
       label: t('popup.delayOptions.tonight', { time: settings.tonightTime }),
       custom: true,
-      calculateTime: () => {
-        const { hours, minutes } = getTimeFromString(settings.tonightTime);
-        const today = new Date();
-        today.setHours(hours, minutes, 0, 0);
-        if (today.getTime() < Date.now()) {
-          return Date.now() + 60 * 60 * 1000;
-        }
-        return today.getTime();
-      },
+      calculateTime: () => calculatePresetWakeTime('tonight', settings),
     },
     {
       id: 'tomorrow',
       label: t('popup.delayOptions.tomorrow', { time: settings.tomorrowTime }),
       custom: true,
-      calculateTime: () => {
-        const { hours, minutes } = getTimeFromString(settings.tomorrowTime);
-        const tomorrow = new Date();
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        tomorrow.setHours(hours, minutes, 0, 0);
-        return tomorrow.getTime();
-      },
+      calculateTime: () => calculatePresetWakeTime('tomorrow', settings),
     },
     {
       id: 'weekend',
@@ -163,26 +132,7 @@ function MainView(): React.ReactElement {
         time: settings.weekendTime 
       }),
       custom: true,
-      calculateTime: () => {
-        const { hours, minutes } = getTimeFromString(settings.weekendTime);
-        const today = new Date();
-        const currentDay = today.getDay();
-        const targetDay = settings.weekendDay === 'saturday' ? 6 : 0;
-
-        let daysUntilTarget;
-        if (currentDay === targetDay) {
-          daysUntilTarget = 7;
-        } else if (currentDay < targetDay) {
-          daysUntilTarget = targetDay - currentDay;
-        } else {
-          daysUntilTarget = 7 - (currentDay - targetDay);
-        }
-
-        const targetDate = new Date();
-        targetDate.setDate(today.getDate() + daysUntilTarget);
-        targetDate.setHours(hours, minutes, 0, 0);
-        return targetDate.getTime();
-      },
+      calculateTime: () => calculatePresetWakeTime('weekend', settings),
     },
     {
       id: 'next_week',
@@ -197,96 +147,22 @@ function MainView(): React.ReactElement {
         }
       })(),
       custom: true,
-      calculateTime: () => {
-        const today = new Date();
-        const hours = today.getHours();
-        const minutes = today.getMinutes();
-        let targetDay;
-        
-        if (settings.nextWeekSameDay) {
-          targetDay = today.getDay();
-        } else {
-          targetDay = settings.nextWeekDay;
-        }
-        
-        const currentDay = today.getDay();
-        let daysUntilTarget;
-        if (currentDay === targetDay) {
-          daysUntilTarget = 7;
-        } else if (currentDay < targetDay) {
-          daysUntilTarget = targetDay - currentDay + 7;
-        } else {
-          daysUntilTarget = 7 - (currentDay - targetDay) + 7;
-        }
-
-        const targetDate = new Date();
-        targetDate.setDate(today.getDate() + daysUntilTarget);
-        targetDate.setHours(hours, minutes, 0, 0);
-        return targetDate.getTime();
-      },
+      calculateTime: () => calculatePresetWakeTime('next_week', settings),
     },
     {
       id: 'next_month',
       label: (() => {
         const today = new Date();
-        const targetDate = new Date();
-        let formattedDate = '';
-        
-        if (settings.nextMonthSameDay) {
-          targetDate.setMonth(today.getMonth() + 1);
-          const lastDayOfNextMonth = new Date(
-            today.getFullYear(),
-            today.getMonth() + 2,
-            0
-          ).getDate();
-          if (today.getDate() > lastDayOfNextMonth) {
-            targetDate.setDate(lastDayOfNextMonth);
-          }
-          const { i18n } = useTranslation();
-          const locale = i18n.language || navigator.language || 'pt-BR';
-          formattedDate = targetDate.toLocaleDateString(locale, { day: 'numeric', month: 'long' });
-        } else {
-          const currentDay = today.getDay();
-          const currentWeekOfMonth = Math.ceil(today.getDate() / 7);
-          targetDate.setMonth(today.getMonth() + 1);
-          targetDate.setDate(1);
-
-          while (targetDate.getDay() !== currentDay) {
-            targetDate.setDate(targetDate.getDate() + 1);
-          }
-
-          targetDate.setDate(
-            targetDate.getDate() + (currentWeekOfMonth - 1) * 7
-          );
-
-          if (targetDate.getMonth() !== (today.getMonth() + 1) % 12) {
-            targetDate.setDate(1);
-            targetDate.setMonth((today.getMonth() + 1) % 12);
-
-            let lastOccurrence = 0;
-            const daysInMonth = new Date(
-              targetDate.getFullYear(),
-              targetDate.getMonth() + 1,
-              0
-            ).getDate();
-
-            for (let i = 1; i <= daysInMonth; i++) {
-              targetDate.setDate(i);
-              if (targetDate.getDay() === currentDay) {
-                lastOccurrence = i;
-              }
-            }
-
-            targetDate.setDate(lastOccurrence);
-          }
-
-          const { i18n } = useTranslation();
-          const locale = i18n.language || navigator.language || 'pt-BR';
-          formattedDate = targetDate.toLocaleDateString(locale, { weekday: 'long', day: 'numeric', month: 'long' });
-        }
-        
-        const { i18n } = useTranslation();
+        const targetDate = new Date(
+          calculatePresetWakeTime('next_month', settings, today)
+        );
         const locale = i18n.language || navigator.language || 'pt-BR';
+        const formattedDate = targetDate.toLocaleDateString(
+          locale,
+          settings.nextMonthSameDay
+            ? { day: 'numeric', month: 'long' }
+            : { weekday: 'long', day: 'numeric', month: 'long' }
+        );
         let timeStr;
         
         if (locale.startsWith('en')) {
@@ -300,77 +176,32 @@ function MainView(): React.ReactElement {
         return `${t('popup.delayOptions.nextMonth')} (${formattedDate}, ${timeStr})`;
       })(),
       custom: true,
-      calculateTime: () => {
-        const today = new Date();
-        const targetDate = new Date();
-
-        if (settings.nextMonthSameDay) {
-          targetDate.setMonth(today.getMonth() + 1);
-          const lastDayOfNextMonth = new Date(
-            today.getFullYear(),
-            today.getMonth() + 2,
-            0
-          ).getDate();
-          if (today.getDate() > lastDayOfNextMonth) {
-            targetDate.setDate(lastDayOfNextMonth);
-          }
-        } else {
-          const currentDay = today.getDay();
-          const currentWeekOfMonth = Math.ceil(today.getDate() / 7);
-          targetDate.setMonth(today.getMonth() + 1);
-          targetDate.setDate(1);
-
-          while (targetDate.getDay() !== currentDay) {
-            targetDate.setDate(targetDate.getDate() + 1);
-          }
-
-          targetDate.setDate(
-            targetDate.getDate() + (currentWeekOfMonth - 1) * 7
-          );
-
-          if (targetDate.getMonth() !== (today.getMonth() + 1) % 12) {
-            targetDate.setDate(1);
-            targetDate.setMonth((today.getMonth() + 1) % 12);
-
-            let lastOccurrence = 0;
-            const daysInMonth = new Date(
-              targetDate.getFullYear(),
-              targetDate.getMonth() + 1,
-              0
-            ).getDate();
-
-            for (let i = 1; i <= daysInMonth; i++) {
-              targetDate.setDate(i);
-              if (targetDate.getDay() === currentDay) {
-                lastOccurrence = i;
-              }
-            }
-
-            targetDate.setDate(lastOccurrence);
-          }
-        }
-        targetDate.setHours(today.getHours(), today.getMinutes(), 0, 0);
-        return targetDate.getTime();
-      },
+      calculateTime: () => calculatePresetWakeTime('next_month', settings),
     },
     {
       id: 'someday',
       label: t('popup.delayOptions.someday'),
       custom: true,
-      calculateTime: () => {
-        const today = new Date();
-        const minMonths = settings.somedayMinMonths;
-        const maxMonths = settings.somedayMaxMonths;
-        const randomMonths = Math.floor(Math.random() * (maxMonths - minMonths + 1)) + minMonths;
-
-        const randomDays = Math.floor(Math.random() * 30);
-
-        const targetDate = new Date();
-        targetDate.setMonth(today.getMonth() + randomMonths);
-        targetDate.setDate(today.getDate() + randomDays);
+      calculateTime: () => calculatePresetWakeTime('someday', settings),
+    },
+  ];
 
-        return targetDate.getTime();
-      },
+  // Options that wake on an event instead of at a time
+  const triggerOptions: DelayOption[] = [
+    {
+      id: 'when_back',
+      label: t('popup.delayOptions.whenBack'),
+      trigger: 'idleReturn',
+    },
+    {
+      id: 'next_session',
+      label: t('popup.delayOptions.nextSession'),
+      trigger: 'nextSession',
+    },
+    {
+      id: 'when_online',
+      label: t('popup.delayOptions.whenOnline'),
+      trigger: 'online',
     },
   ];
 
@@ -380,6 +211,8 @@ function MainView(): React.ReactElement {
         return activeTab ? [activeTab] : [];
       case 'highlighted':
         return highlightedTabs;
+      case 'group':
+        return groupTabs;
       case 'window':
         return allWindowTabs;
       default:
@@ -394,11 +227,10 @@ function MainView(): React.ReactElement {
     const tabsToDelay = getTabsToDelay();
     if (tabsToDelay.length === 0) return;
 
-    const windowSessionId =
-      selectedMode === 'window' ? generateUniqueTabId() : undefined;
-
-    let wakeTime: number;
-    if (option.calculateTime) {
+    let wakeTime: number | undefined;
+    if (option.trigger) {
+      wakeTime = undefined;
+    } else if (option.calculateTime) {
       wakeTime = option.calculateTime();
     } else {
       const now = Date.now();
@@ -408,43 +240,27 @@ function MainView(): React.ReactElement {
         (option.days ? option.days * 24 * 60 * 60 * 1000 : 0);
     }
 
-    await chrome.storage.local.get({ delayedTabs: [] }, async (data) => {
-      const { delayedTabs } = data;
-      const tabIds: number[] = [];
-      
-      for (const tab of tabsToDelay) {
-        if (!tab.id) continue;
-
-        const newTabId = generateUniqueTabId();
-
-        const tabInfo = {
-          id: newTabId,
-          url: tab.url,
-          title: tab.title,
-          favicon: tab.favIconUrl,
-          createdAt: Date.now(),
-          wakeTime,
-          windowSessionId,
-          windowIndex: typeof tab.index === 'number' ? tab.index : undefined,
-        };
-
-        delayedTabs.push(tabInfo);
-
-        await chrome.alarms.create(`delayed-tab-${tabInfo.id}`, {
-          when: wakeTime,
-        });
-        
-        tabIds.push(tab.id);
-      }
-      
-      await chrome.storage.local.set({ delayedTabs });
+    const browserTabs = tabsToDelay.filter((tab) => tab.id);
+
+    await sendBackgroundMessage({
+      action: 'delay',
+      targets: await toDelayTargets(browserTabs),
+      wakeTime,
+      trigger: option.trigger,
+      // A group wakes as a unit, in a window of its own
+      asWindow: selectedMode === 'window' || selectedMode === 'group',
+      windowLayout:
+        selectedMode === 'window' && browserTabs.length > 0
+          ? await getWindowLayout(browserTabs[0].windowId)
+          : undefined,
+      timeZoneMode: settings.timeZoneMode ?? 'original',
+    });
 
-      if (tabIds.length > 0) {
-        await chrome.tabs.remove(tabIds);
-      }
+    if (browserTabs.length > 0) {
+      await chrome.tabs.remove(browserTabs.map((tab) => tab.id as number));
+    }
 
-      window.close();
-    });
+    window.close();
   };
 
   if (loading) {
@@ -513,6 +329,14 @@ function MainView(): React.ReactElement {
               >
                 {t('popup.tabs.highlighted')} {highlightedTabs.length > 1 ? `(${highlightedTabs.length})` : ''}
               </button>
+              <button
+                type='button'
+                className={`btn btn-sm ${selectedMode === 'group' ? 'btn-primary' : 'btn-outline'}`}
+                onClick={() => setSelectedMode('group')}
+                disabled={groupTabs.length === 0}
+              >
+                {t('popup.tabs.group')} {groupTabs.length > 0 ? `(${groupTabs.length})` : ''}
+              </button>
               <button
                 type='button'
                 className={`btn btn-sm ${selectedMode === 'window' ? 'btn-primary' : 'btn-outline'}`}
@@ -548,6 +372,12 @@ function MainView(): React.ReactElement {
               </div>
             )}
             
+            {selectedMode === 'group' && (
+              <div className='text-sm font-medium text-base-content/80'>
+                {groupTabs.length} {groupTabs.length === 1 ? t('common.tabs.singular') : t('common.tabs')} {t('popup.inGroup', { title: groupTitle || t('popup.untitledGroup') })}
+              </div>
+            )}
+            
             {selectedMode === 'window' && (
               <div className='text-sm font-medium text-base-content/80'>
                 {allWindowTabs.length} {allWindowTabs.length === 1 ? t('common.tabs.singular') : t('common.tabs')} {t('popup.inWindow')}
@@ -632,6 +462,32 @@ function MainView(): React.ReactElement {
               </span>
             </Link>
           </div>
+
+          {triggerOptions.map((option) => (
+            <div key={option.id} className='card'>
+              <button
+                type='button'
+                className='group btn h-24 flex-col items-center justify-center rounded-xl border-none bg-base-100/70 p-3 shadow-sm transition-all duration-200 hover:bg-base-100'
+                onClick={() => handleDelay(option)}
+              >
+                <FontAwesomeIcon
+                  icon={
+                    option.id === 'when_back'
+                      ? 'door-open'
+                      : option.id === 'next_session'
+                        ? 'power-off'
+                        : option.id === 'when_online'
+                          ? 'wifi'
+                          : 'clock'
+                  }
+                  className='mb-3 h-5 w-5 transform text-neutral-400 transition-all duration-300 ease-in-out group-hover:scale-110 group-hover:text-delayo-orange'
+                />
+                <span className='text-center text-xs font-medium text-base-content/80 group-hover:text-base-content'>
+                  {option.label}
+                </span>
+              </button>
+            </div>
+          ))}
         </div>
 
         <div className='mt-6 flex justify-center'>
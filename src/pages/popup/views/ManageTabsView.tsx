@@ -1,7 +1,8 @@
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { Link } from '@tanstack/react-router';
 import { DelayedTab } from '@types';
-import normalizeDelayedTabs from '@utils/normalizeDelayedTabs';
+import isTimedTab from '@utils/isTimedTab';
+import sendBackgroundMessage from '@utils/sendBackgroundMessage';
 import React, { useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
@@ -15,9 +16,14 @@ type TabGroup = {
   windowIndex?: number;
 };
 
+// The popup lists the soonest tabs and loads more on request
+const PAGE_SIZE = 50;
+
 function ManageTabsView(): React.ReactElement {
   const [delayedTabs, setDelayedTabs] = useState<DelayedTab[]>([]);
   const [loading, setLoading] = useState(true);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [hasMore, setHasMore] = useState(false);
   const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
   const [selectMode, setSelectMode] = useState(false);
   const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
@@ -30,14 +36,29 @@ function ManageTabsView(): React.ReactElement {
   useEffect(() => {
     const loadDelayedTabs = async (): Promise<void> => {
       try {
-        setLoading(true);
-        const { delayedTabs: storedTabs = [] } =
-          await chrome.storage.local.get('delayedTabs');
-        const normalizedTabs = normalizeDelayedTabs(storedTabs);
-        const sortedTabs = [...normalizedTabs].sort(
-          (a, b) => a.wakeTime - b.wakeTime
-        );
-        setDelayedTabs(sortedTabs);
+        const tabs = await sendBackgroundMessage({
+          action: 'list',
+          query: { limit },
+        });
+        const isCutOff = tabs.length === limit;
+
+        // A window cut off by the limit is completed, so it wakes, moves
+        // and is removed as a whole
+        const lastSessionId = tabs[tabs.length - 1]?.windowSessionId;
+        const sessionTabs =
+          isCutOff && lastSessionId
+            ? await sendBackgroundMessage({
+                action: 'list',
+                query: { windowSessionId: lastSessionId },
+              })
+            : [];
+        const loadedIds = new Set(tabs.map((tab) => tab.id));
+
+        setDelayedTabs([
+          ...tabs,
+          ...sessionTabs.filter((tab) => !loadedIds.has(tab.id)),
+        ]);
+        setHasMore(isCutOff);
       } catch (error) {
         console.error('Error loading delayed tabs:', error);
       } finally {
@@ -46,7 +67,7 @@ function ManageTabsView(): React.ReactElement {
     };
 
     loadDelayedTabs();
-  }, []);
+  }, [limit]);
 
   const tabGroups = useMemo<TabGroup[]>(() => {
     const groups = new Map<string, TabGroup>();
@@ -108,10 +129,7 @@ function ManageTabsView(): React.ReactElement {
         return;
       }
 
-      await chrome.runtime.sendMessage({
-        action: 'wake-tabs',
-        tabIds,
-      });
+      await sendBackgroundMessage({ action: 'wake', tabIds });
 
       const updatedTabs = delayedTabs.filter((item) => !tabIds.includes(item.id));
 
@@ -125,10 +143,7 @@ function ManageTabsView(): React.ReactElement {
 
   const wakeTab = async (tab: DelayedTab): Promise<void> => {
     try {
-      await chrome.runtime.sendMessage({
-        action: 'wake-tabs',
-        tabIds: [tab.id],
-      });
+      await sendBackgroundMessage({ action: 'wake', tabIds: [tab.id] });
 
       const updatedTabs = delayedTabs.filter((item) => item.id !== tab.id);
       setDelayedTabs(updatedTabs);
@@ -145,10 +160,8 @@ function ManageTabsView(): React.ReactElement {
 
   const removeTab = async (tab: DelayedTab): Promise<void> => {
     try {
-      const updatedTabs = delayedTabs.filter((item) => item.id !== tab.id);
-      await chrome.storage.local.set({ delayedTabs: updatedTabs });
-      await chrome.alarms.clear(`delayed-tab-${tab.id}`);
-      setDelayedTabs(updatedTabs);
+      await sendBackgroundMessage({ action: 'remove', tabIds: [tab.id] });
+      setDelayedTabs(delayedTabs.filter((item) => item.id !== tab.id));
     } catch (error) {
       console.error('Error removing tab:', error);
     }
@@ -194,10 +207,7 @@ function ManageTabsView(): React.ReactElement {
         return;
       }
 
-      await chrome.runtime.sendMessage({
-        action: 'wake-tabs',
-        tabIds,
-      });
+      await sendBackgroundMessage({ action: 'wake', tabIds });
 
       const updatedTabs = delayedTabs.filter((tab) => !tabIds.includes(tab.id));
 
@@ -217,16 +227,12 @@ function ManageTabsView(): React.ReactElement {
         )
       );
 
-      const updatedTabs = delayedTabs.filter((tab) => !selectedIds.has(tab.id));
-      await chrome.storage.local.set({ delayedTabs: updatedTabs });
-
-      await Promise.all(
-        Array.from(selectedIds).map((tabId) =>
-          chrome.alarms.clear(`delayed-tab-${tabId}`)
-        )
-      );
+      await sendBackgroundMessage({
+        action: 'remove',
+        tabIds: Array.from(selectedIds),
+      });
 
-      setDelayedTabs(updatedTabs);
+      setDelayedTabs(delayedTabs.filter((tab) => !selectedIds.has(tab.id)));
       setSelectedGroups([]);
     } catch (error) {
       console.error('Error removing selected tabs:', error);
@@ -236,15 +242,9 @@ function ManageTabsView(): React.ReactElement {
   const removeGroup = async (group: TabGroup): Promise<void> => {
     try {
       const tabIds = group.tabs.map((tab) => tab.id);
-      const updatedTabs = delayedTabs.filter((tab) => !tabIds.includes(tab.id));
+      await sendBackgroundMessage({ action: 'remove', tabIds });
 
-      await chrome.storage.local.set({ delayedTabs: updatedTabs });
-
-      await Promise.all(
-        tabIds.map((tabId) => chrome.alarms.clear(`delayed-tab-${tabId}`))
-      );
-
-      setDelayedTabs(updatedTabs);
+      setDelayedTabs(delayedTabs.filter((tab) => !tabIds.includes(tab.id)));
       setSelectedGroups((prev) => prev.filter((id) => id !== group.id));
       setEditingGroupId((prev) => (prev === group.id ? null : prev));
     } catch (error) {
@@ -288,23 +288,18 @@ function ManageTabsView(): React.ReactElement {
 
     try {
       setSavingGroupEdit(true);
-      const groupTabIds = new Set(group.tabs.map((tab) => tab.id));
-
-      const updatedTabs = delayedTabs.map((tab) =>
-        groupTabIds.has(tab.id) ? { ...tab, wakeTime: newWakeTime } : tab
+      const rescheduledTabs = await sendBackgroundMessage({
+        action: 'reschedule',
+        tabIds: group.tabs.map((tab) => tab.id),
+        wakeTime: newWakeTime,
+      });
+      const rescheduledById = new Map(
+        rescheduledTabs.map((tab) => [tab.id, tab])
       );
 
-      await chrome.storage.local.set({ delayedTabs: updatedTabs });
-
-      await Promise.all(
-        group.tabs.map((tab) => chrome.alarms.clear(`delayed-tab-${tab.id}`))
+      setDelayedTabs(
+        delayedTabs.map((tab) => rescheduledById.get(tab.id) ?? tab)
       );
-
-      group.tabs.forEach((tab) => {
-        chrome.alarms.create(`delayed-tab-${tab.id}`, { when: newWakeTime });
-      });
-
-      setDelayedTabs(updatedTabs);
       setEditingGroupId(null);
       setEditingWakeTime('');
       setEditError(null);
@@ -509,7 +504,14 @@ function ManageTabsView(): React.ReactElement {
                             </div>
                           </div>
                           <div className='mt-1 text-xs text-base-content/60'>
-                            {formatDate(group.wakeTime)} ({calculateTimeLeft(group.wakeTime)})
+                            {isTimedTab(firstTab)
+                              ? `${formatDate(group.wakeTime)} (${calculateTimeLeft(group.wakeTime)})`
+                              : t(`manageTabs.triggers.${firstTab.trigger}`)}
+                            {isTimedTab(firstTab) && group.wakeTime <= Date.now() && (
+                              <span className='badge badge-warning badge-sm ml-2'>
+                                {t('manageTabs.late')}
+                              </span>
+                            )}
                           </div>
                           {isWindowGroup && (
                             <div className='mt-1 text-xs text-base-content/60'>
@@ -637,6 +639,15 @@ function ManageTabsView(): React.ReactElement {
                 );
               })}
             </div>
+            {hasMore && (
+              <button
+                type='button'
+                className='btn btn-ghost btn-sm mt-3 w-full'
+                onClick={() => setLimit((prev) => prev + PAGE_SIZE)}
+              >
+                {t('manageTabs.showMore')}
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -1,8 +1,12 @@
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { Link } from '@tanstack/react-router';
-import { DelayedTab, RecurrencePattern } from '@types';
+import { RecurrencePattern, TimeZoneMode } from '@types';
 import React, { useEffect, useId, useState } from 'react';
-import generateUniqueTabId from '@utils/generateUniqueTabId';
+import calculateNextWakeTime from '@utils/calculateNextWakeTime';
+import getWindowLayout from '@utils/getWindowLayout';
+import sendBackgroundMessage from '@utils/sendBackgroundMessage';
+import toDelayTargets from '@utils/toDelayTargets';
+import { getSystemTimeZone } from '@utils/zonedTime';
 import { useTranslation } from 'react-i18next';
 
 function FormControl({
@@ -27,17 +31,26 @@ function RecurringDelayView(): React.ReactElement {
   const daysOfWeekId = useId();
   const dayOfMonthId = useId();
   const endDateId = useId();
+  const intervalId = useId();
+  const weekOfMonthId = useId();
+  const nthWeekdayId = useId();
 
   const [activeTab, setActiveTab] = useState<chrome.tabs.Tab | null>(null);
   const [highlightedTabs, setHighlightedTabs] = useState<chrome.tabs.Tab[]>([]);
   const [allWindowTabs, setAllWindowTabs] = useState<chrome.tabs.Tab[]>([]);
-  const [selectedMode, setSelectedMode] = useState<'active' | 'highlighted' | 'window'>('active');
+  const [groupTabs, setGroupTabs] = useState<chrome.tabs.Tab[]>([]);
+  const [groupTitle, setGroupTitle] = useState('');
+  const [selectedMode, setSelectedMode] = useState<'active' | 'highlighted' | 'group' | 'window'>('active');
   const [loading, setLoading] = useState(true);
+  const [timeZoneMode, setTimeZoneMode] = useState<TimeZoneMode>('original');
   const [recurrenceType, setRecurrenceType] =
     useState<RecurrencePattern['type']>('daily');
   const [time, setTime] = useState<string>('09:00');
   const [selectedDays, setSelectedDays] = useState<number[]>([1, 2, 3, 4, 5]); // Default to weekdays
   const [dayOfMonth, setDayOfMonth] = useState<number>(1);
+  const [intervalCount, setIntervalCount] = useState<number>(1);
+  const [weekOfMonth, setWeekOfMonth] = useState<number>(1);
+  const [nthWeekday, setNthWeekday] = useState<number>(new Date().getDay());
   const [endDate, setEndDate] = useState<string>('');
 
   const weekDays = [
@@ -50,6 +63,27 @@ function RecurringDelayView(): React.ReactElement {
     { value: 6, label: 'S' },
   ];
 
+  const weekdayNames = [
+    'sunday',
+    'monday',
+    'tuesday',
+    'wednesday',
+    'thursday',
+    'friday',
+    'saturday',
+  ];
+
+  const intervalUnits: Partial<Record<RecurrencePattern['type'], string>> = {
+    daily: 'days',
+    weekly: 'weeks',
+    custom: 'weeks',
+    monthly: 'months',
+    nthWeekday: 'months',
+    lastBusinessDay: 'months',
+    hourly: 'hours',
+  };
+  const supportsInterval = recurrenceType in intervalUnits;
+
   useEffect(() => {
     const getTabs = async (): Promise<void> => {
       try {
@@ -66,7 +100,11 @@ function RecurringDelayView(): React.ReactElement {
           });
           setHighlightedTabs(highlighted);
           
-          const { selectedMode: mainViewMode } = await chrome.storage.local.get('selectedMode');
+          const { selectedMode: mainViewMode, delaySettings } =
+            await chrome.storage.local.get(['selectedMode', 'delaySettings']);
+          if (delaySettings?.timeZoneMode) {
+            setTimeZoneMode(delaySettings.timeZoneMode);
+          }
           if (mainViewMode) {
             setSelectedMode(mainViewMode);
           } else if (highlighted.length > 1) {
@@ -79,6 +117,16 @@ function RecurringDelayView(): React.ReactElement {
             currentWindow: true,
           });
           setAllWindowTabs(allTabs);
+
+          if (
+            chrome.tabGroups &&
+            tab?.groupId !== undefined &&
+            tab.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE
+          ) {
+            const group = await chrome.tabGroups.get(tab.groupId);
+            setGroupTitle(group.title ?? '');
+            setGroupTabs(await chrome.tabs.query({ groupId: tab.groupId }));
+          }
         } else {
           const mockTab = {
             id: 123,
@@ -125,6 +173,8 @@ function RecurringDelayView(): React.ReactElement {
         return activeTab ? [activeTab] : [];
       case 'highlighted':
         return highlightedTabs;
+      case 'group':
+        return groupTabs;
       case 'window':
         return allWindowTabs;
       default:
@@ -136,96 +186,44 @@ function RecurringDelayView(): React.ReactElement {
     const tabsToDelay = getTabsToDelay();
     if (tabsToDelay.length === 0) return;
 
-    const now = new Date();
-    const [hours, minutes] = time.split(':').map(Number);
-    const firstWakeTime = new Date();
-    firstWakeTime.setHours(hours, minutes, 0, 0);
-
-    if (firstWakeTime.getTime() < now.getTime()) {
-      firstWakeTime.setDate(firstWakeTime.getDate() + 1);
-    }
-
-    if (recurrenceType === 'monthly') {
-      firstWakeTime.setDate(dayOfMonth);
-      if (firstWakeTime.getTime() < now.getTime()) {
-        firstWakeTime.setMonth(firstWakeTime.getMonth() + 1);
-      }
-    }
-
-    if (recurrenceType === 'weekly' || recurrenceType === 'custom') {
-      const currentDay = now.getDay();
-      let daysUntilNext = 7;
-
-      for (let i = 1; i <= 7; i++) {
-        const checkDay = (currentDay + i) % 7;
-        if (selectedDays.includes(checkDay)) {
-          daysUntilNext = i;
-          break;
-        }
-      }
-
-      firstWakeTime.setDate(now.getDate() + daysUntilNext);
-    }
-
-    const recurrencePattern: RecurrencePattern = {
+    const basePattern: RecurrencePattern = {
       type: recurrenceType,
       time,
-      daysOfWeek: selectedDays,
+      timeZone: getSystemTimeZone(),
+      daysOfWeek:
+        recurrenceType === 'nthWeekday' ? [nthWeekday] : selectedDays,
       dayOfMonth: recurrenceType === 'monthly' ? dayOfMonth : undefined,
+      weekOfMonth: recurrenceType === 'nthWeekday' ? weekOfMonth : undefined,
+      interval:
+        supportsInterval && intervalCount > 1 ? intervalCount : undefined,
       endDate: endDate ? new Date(endDate).getTime() : undefined,
     };
 
-    const windowSessionId =
-      selectedMode === 'window' ? generateUniqueTabId() : undefined;
-
-    if (
-      typeof chrome !== 'undefined' &&
-      chrome.storage &&
-      chrome.storage.local
-    ) {
-      chrome.storage.local.get({ delayedTabs: [] }, async (data) => {
-        const { delayedTabs } = data;
-        const tabIds: number[] = [];
-        
-        for (const tab of tabsToDelay) {
-          if (!tab.id) continue;
-
-          const newTabId = generateUniqueTabId();
-
-          const tabInfo: DelayedTab = {
-            id: newTabId,
-            url: tab.url,
-            title: tab.title,
-            favicon: tab.favIconUrl,
-            createdAt: Date.now(),
-            wakeTime: firstWakeTime.getTime(),
-            recurrencePattern,
-            isRecurring: true,
-            windowSessionId,
-            windowIndex: typeof tab.index === 'number' ? tab.index : undefined,
-          };
-
-          delayedTabs.push(tabInfo);
-
-          if (chrome.alarms) {
-            await chrome.alarms.create(`delayed-tab-${tabInfo.id}`, {
-              when: firstWakeTime.getTime(),
-            });
-          }
-          
-          tabIds.push(tab.id);
-        }
-
-        await chrome.storage.local.set({ delayedTabs });
+    // The background worker anchors the pattern on its first occurrence
+    if (!calculateNextWakeTime(basePattern)) return;
+
+    if (typeof chrome !== 'undefined' && chrome.runtime?.id) {
+      const browserTabs = tabsToDelay.filter((tab) => tab.id);
+
+      await sendBackgroundMessage({
+        action: 'delay',
+        targets: await toDelayTargets(browserTabs),
+        recurrencePattern: basePattern,
+        asWindow: selectedMode === 'window' || selectedMode === 'group',
+        windowLayout:
+          selectedMode === 'window' && browserTabs.length > 0
+            ? await getWindowLayout(browserTabs[0].windowId)
+            : undefined,
+        timeZoneMode,
+      });
 
-        if (chrome.tabs && tabIds.length > 0) {
-          await chrome.tabs.remove(tabIds);
-        }
+      if (chrome.tabs && browserTabs.length > 0) {
+        await chrome.tabs.remove(browserTabs.map((tab) => tab.id as number));
+      }
 
-        if (window.close) {
-          window.close();
-        }
-      });
+      if (window.close) {
+        window.close();
+      }
     } else {
       console.log('Development mode - tabs would be delayed:', tabsToDelay);
     }
@@ -288,6 +286,12 @@ function RecurringDelayView(): React.ReactElement {
               </div>
             )}
             
+            {selectedMode === 'group' && (
+              <div className='text-sm font-medium text-base-content/80'>
+                {groupTabs.length} {groupTabs.length === 1 ? t('common.tabs.singular') : t('common.tabs')} {t('popup.inGroup', { title: groupTitle || t('popup.untitledGroup') })}
+              </div>
+            )}
+            
             {selectedMode === 'window' && (
               <div className='text-sm font-medium text-base-content/80'>
                 {allWindowTabs.length} {allWindowTabs.length === 1 ? t('common.tabs.singular') : t('common.tabs')} {t('popup.inWindow')}
@@ -309,11 +313,45 @@ function RecurringDelayView(): React.ReactElement {
             <option value='weekdays'>{t('recurringDelay.weekdays')}</option>
             <option value='weekly'>{t('recurringDelay.weekly')}</option>
             <option value='monthly'>{t('recurringDelay.monthly')}</option>
+            <option value='nthWeekday'>{t('recurringDelay.nthWeekday')}</option>
+            <option value='lastBusinessDay'>
+              {t('recurringDelay.lastBusinessDay')}
+            </option>
+            <option value='hourly'>{t('recurringDelay.hourly')}</option>
             <option value='custom'>{t('customDelay.title')}</option>
           </select>
         </FormControl>
 
-        <FormControl label={t('recurringDelay.selectTime')}>
+        {supportsInterval && (
+          <FormControl label={t('recurringDelay.repeatEvery')}>
+            <div className='flex items-center'>
+              <input
+                id={intervalId}
+                type='number'
+                className='input input-bordered w-20 border-none bg-base-100/50 shadow-sm transition-all duration-200 focus:bg-base-100/80'
+                min='1'
+                max='12'
+                value={intervalCount}
+                onChange={(e) =>
+                  setIntervalCount(
+                    Math.min(12, Math.max(1, parseInt(e.target.value, 10) || 1))
+                  )
+                }
+              />
+              <span className='ml-2 text-sm'>
+                {t(`recurringDelay.units.${intervalUnits[recurrenceType]}`)}
+              </span>
+            </div>
+          </FormControl>
+        )}
+
+        <FormControl
+          label={
+            recurrenceType === 'hourly'
+              ? t('recurringDelay.startingAt')
+              : t('recurringDelay.selectTime')
+          }
+        >
           <input
             id={timeId}
             type='time'
@@ -363,6 +401,37 @@ function RecurringDelayView(): React.ReactElement {
           </FormControl>
         )}
 
+        {recurrenceType === 'nthWeekday' && (
+          <FormControl label={t('recurringDelay.selectDay')}>
+            <div className='flex gap-2'>
+              <select
+                id={weekOfMonthId}
+                className='select select-bordered w-1/2 border-none bg-base-100/50 shadow-sm transition-all duration-200 focus:bg-base-100/80'
+                value={weekOfMonth}
+                onChange={(e) => setWeekOfMonth(parseInt(e.target.value, 10))}
+              >
+                {[1, 2, 3, 4, -1].map((week) => (
+                  <option key={week} value={week}>
+                    {t(`recurringDelay.ordinals.${week === -1 ? 'last' : week}`)}
+                  </option>
+                ))}
+              </select>
+              <select
+                id={nthWeekdayId}
+                className='select select-bordered w-1/2 border-none bg-base-100/50 shadow-sm transition-all duration-200 focus:bg-base-100/80'
+                value={nthWeekday}
+                onChange={(e) => setNthWeekday(parseInt(e.target.value, 10))}
+              >
+                {weekdayNames.map((name, index) => (
+                  <option key={name} value={index}>
+                    {t(`popup.weekdays.${name}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </FormControl>
+        )}
+
         <FormControl label={t('manageTabs.endDate')}>
           <input
             id={endDateId}
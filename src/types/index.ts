@@ -5,25 +5,256 @@ export interface DelayOption {
   days?: number;
   custom?: boolean;
   calculateTime?: () => number;
+  trigger?: WakeTrigger; // event options wake without a time
 }
 
+// Quick delay choices shared by the popup, shortcuts and menus
+export type DelayPresetId =
+  | 'later_today'
+  | 'tonight'
+  | 'tomorrow'
+  | 'weekend'
+  | 'next_week'
+  | 'next_month'
+  | 'someday';
+
+// What wakes a delayed tab: its wake time, the user coming back after being
+// idle or locked, the next browser start, or the page being reachable again
+export type WakeTrigger = 'time' | 'idleReturn' | 'nextSession' | 'online';
+
+// 'original' keeps the wall-clock time of the zone the delay was created in,
+// 'current' moves it along when the system time zone changes
+export type TimeZoneMode = 'original' | 'current';
+
 export interface RecurrencePattern {
-  type: 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'custom';
+  type:
+    | 'daily'
+    | 'weekdays'
+    | 'weekly'
+    | 'monthly'
+    | 'custom'
+    | 'nthWeekday'
+    | 'lastBusinessDay'
+    | 'hourly';
   daysOfWeek?: number[];
   dayOfMonth?: number;
+  weekOfMonth?: number; // 1-4, or -1 for the last occurrence in the month
+  interval?: number; // every N days, weeks, months or hours depending on type
   time: string;
+  timeZone?: string; // IANA zone the time is read in
+  startDate?: number; // first occurrence, used as the anchor for intervals
   endDate?: number;
 }
 
+export type TabGroupColor =
+  | 'grey'
+  | 'blue'
+  | 'red'
+  | 'yellow'
+  | 'green'
+  | 'pink'
+  | 'purple'
+  | 'cyan'
+  | 'orange';
+
+// Tab group a delayed tab belonged to. Tabs of one window session that share
+// a groupKey are grouped again when they wake.
+export interface DelayedTabGroup {
+  groupKey: string;
+  title?: string;
+  color: TabGroupColor;
+  collapsed: boolean;
+}
+
+// Size, placement and kind of a delayed window, reapplied when it wakes
+export interface DelayedWindowLayout {
+  left?: number;
+  top?: number;
+  width?: number;
+  height?: number;
+  state?: 'normal' | 'maximized' | 'fullscreen';
+  type?: 'normal' | 'popup';
+}
+
 export interface DelayedTab {
   id: string;
   url?: string;
   title?: string;
   favicon?: string;
   createdAt: number;
-  wakeTime: number;
+  wakeTime: number; // the creation time for event triggers, which have none
+  trigger?: WakeTrigger; // 'time' when missing
+  retryCount?: number; // failed reachability checks of an 'online' tab
   isRecurring?: boolean;
   recurrencePattern?: RecurrencePattern;
   windowSessionId?: string;
   windowIndex?: number;
+  timeZone?: string;
+  timeZoneMode?: TimeZoneMode;
+  missedAt?: number; // set while a missed wake waits for the user to choose
+  tabGroup?: DelayedTabGroup;
+  pinned?: boolean;
+  muted?: boolean;
+  windowLayout?: DelayedWindowLayout; // shared by every tab of a window session
+  sourceWindowId?: number; // window the tab was delayed from
+  sourceSessionId?: string; // browser session sourceWindowId belongs to
+}
+
+// Wakes due inside a range are held until it ends. An end at or before the
+// start runs past midnight into the next day.
+export interface QuietHoursRange {
+  day: number; // 0-6 (0 = Sunday), the day the range starts on
+  start: string; // format HH:MM
+  end: string; // format HH:MM
 }
+
+// Working days and hours presets roll forward into, when enabled
+export interface WorkSchedule {
+  enabled: boolean;
+  workingDays: number[]; // 0-6 (0 = Sunday)
+  startTime: string; // format HH:MM
+  endTime: string; // format HH:MM
+  holidays: string[]; // local dates, format YYYY-MM-DD
+}
+
+// Where a single woken tab opens
+export type RestoreTarget =
+  | 'originalWindow'
+  | 'currentWindow'
+  | 'newWindow'
+  | 'backgroundTab';
+
+// How a batch of due tabs is opened: all at once, a few per minute, or all
+// at once but discarded so each loads only when focused
+export type WakePacing = 'immediate' | 'perMinute' | 'lazy';
+
+// What happens to wakes that came due while the browser was closed
+export type CatchUpPolicy =
+  | 'openAll'
+  | 'missedWindow'
+  | 'summary'
+  | 'skipRecurring';
+
+export interface DelaySettings {
+  laterToday: number; // hours
+  tonightTime: string; // format HH:MM
+  tomorrowTime: string; // format HH:MM
+  weekendDay: 'saturday' | 'sunday';
+  weekendTime: string; // format HH:MM
+  nextWeekSameDay: boolean; // if true, same day of week; if false, specific day of week
+  nextWeekDay: number; // 0-6 (0 = Sunday, 1 = Monday, etc.)
+  nextWeekTime: string; // format HH:MM
+  nextMonthSameDay: boolean; // if true, same day of month; if false, same day of week
+  somedayMinMonths: number; // minimum months for "Someday"
+  somedayMaxMonths: number; // maximum months for "Someday"
+  timeZoneMode?: TimeZoneMode; // how new delays react to time zone changes
+  catchUpPolicy?: CatchUpPolicy;
+  keepWakeNotifications?: boolean; // wake notifications stay until clicked
+  restoreTarget?: RestoreTarget;
+  quietHours?: QuietHoursRange[];
+  deferWhileFullscreen?: boolean; // hold wakes while any window is fullscreen
+  wakePacing?: WakePacing;
+  tabsPerMinute?: number; // used when wakePacing is 'perMinute'
+  workSchedule?: WorkSchedule;
+  syncEnabled?: boolean; // per device, never synced itself
+  idleMinutes?: number; // time away before a return wakes 'idleReturn' tabs
+}
+
+// Outcome of the last chrome.storage.sync pass, shown in the settings
+export interface SyncStatus {
+  lastSyncedAt?: number;
+  error?: string;
+}
+
+// A stored record that failed validation, kept aside instead of being dropped
+export interface QuarantinedRecord {
+  record: unknown;
+  reason: string;
+  quarantinedAt: number;
+}
+
+// Filters for listing delayed tabs, each backed by a database index
+export interface DelayedTabQuery {
+  dueBefore?: number;
+  windowSessionId?: string;
+  urlHost?: string;
+  limit?: number;
+}
+
+// Versioned file the options page exports to move everything to another
+// machine or profile
+export interface DelayoBackup {
+  format: 'delayo-backup';
+  version: number;
+  exportedAt: number;
+  delayedTabs: DelayedTab[];
+  delaySettings?: DelaySettings;
+  theme?: 'light' | 'dark';
+  savedLanguage?: string;
+}
+
+// 'replace' swaps in the backup, 'merge' adds its tabs that are not already
+// delayed for the same URL and wake time and keeps preferences already set
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreSummary {
+  added: number;
+  duplicates: number;
+  invalid: number; // records that failed validation and were left out
+}
+
+// Page details the popup hands over when delaying a browser tab
+export interface DelayTarget {
+  url?: string;
+  title?: string;
+  favicon?: string;
+  windowIndex?: number;
+  tabGroup?: DelayedTabGroup;
+  pinned?: boolean;
+  muted?: boolean;
+  sourceWindowId?: number;
+}
+
+// Messages the UI sends to the background worker, which owns delayedTabs
+// and its alarms
+export type BackgroundRequest =
+  | {
+      action: 'delay';
+      targets: DelayTarget[];
+      wakeTime?: number; // derived from recurrencePattern when omitted
+      trigger?: WakeTrigger; // event triggers take no wakeTime or pattern
+      recurrencePattern?: RecurrencePattern;
+      asWindow?: boolean; // reopen the targets together in one window
+      windowLayout?: DelayedWindowLayout; // only kept when asWindow is set
+      timeZoneMode?: TimeZoneMode;
+    }
+  | { action: 'reschedule'; tabIds: string[]; wakeTime: number }
+  | { action: 'remove'; tabIds: string[] }
+  | { action: 'list'; query?: DelayedTabQuery }
+  | { action: 'wake'; tabIds: string[] }
+  | { action: 'import'; tabs: DelayedTab[] } // ids already delayed are skipped
+  | { action: 'exportBackup' }
+  | { action: 'restoreBackup'; backup: DelayoBackup; mode: RestoreMode }
+  | {
+      action: 'editRecurrence';
+      tabId: string;
+      recurrencePattern: RecurrencePattern;
+    };
+
+export type BackgroundAction = BackgroundRequest['action'];
+
+export interface BackgroundResults {
+  delay: DelayedTab[];
+  reschedule: DelayedTab[];
+  remove: string[];
+  list: DelayedTab[];
+  wake: string[];
+  import: DelayedTab[];
+  exportBackup: DelayoBackup;
+  restoreBackup: RestoreSummary;
+  editRecurrence: DelayedTab;
+}
+
+export type BackgroundResponse<A extends BackgroundAction = BackgroundAction> =
+  | { success: true; data: BackgroundResults[A] }
+  | { success: false; error: string };
@@ -0,0 +1,270 @@
+import { RecurrencePattern, WorkSchedule } from '@types';
+import { describe, expect, it } from 'vitest';
+
+import calculateNextWakeTime from './calculateNextWakeTime';
+
+// New York is UTC-5 in winter and UTC-4 in summer. In 2026 clocks jump from
+// 02:00 to 03:00 on March 8 and fall back from 02:00 to 01:00 on November 1.
+const TIME_ZONE = 'America/New_York';
+
+const at = (iso: string): number => Date.parse(iso);
+
+const next = (pattern: RecurrencePattern, after: string): string | null => {
+  const wakeTime = calculateNextWakeTime(pattern, at(after), TIME_ZONE);
+  return wakeTime === null ? null : new Date(wakeTime).toISOString();
+};
+
+describe('calculateNextWakeTime', () => {
+  describe('intervals', () => {
+    it('counts daily intervals from the start date', () => {
+      const pattern: RecurrencePattern = {
+        type: 'daily',
+        time: '09:00',
+        interval: 3,
+        startDate: at('2026-01-05T14:00:00Z'),
+      };
+
+      expect(next(pattern, '2026-01-06T00:00:00Z')).toBe(
+        '2026-01-08T14:00:00.000Z'
+      );
+    });
+
+    it('skips the weeks in between for weekly intervals', () => {
+      const pattern: RecurrencePattern = {
+        type: 'weekly',
+        time: '09:00',
+        daysOfWeek: [1, 3],
+        interval: 2,
+        startDate: at('2026-01-05T14:00:00Z'),
+      };
+
+      expect(next(pattern, '2026-01-05T15:00:00Z')).toBe(
+        '2026-01-07T14:00:00.000Z'
+      );
+      expect(next(pattern, '2026-01-07T15:00:00Z')).toBe(
+        '2026-01-19T14:00:00.000Z'
+      );
+    });
+
+    it('does not wake before the start date', () => {
+      const pattern: RecurrencePattern = {
+        type: 'daily',
+        time: '09:00',
+        startDate: at('2026-01-10T14:00:00Z'),
+      };
+
+      expect(next(pattern, '2026-01-05T00:00:00Z')).toBe(
+        '2026-01-10T14:00:00.000Z'
+      );
+    });
+
+    it('returns null once the end date has passed', () => {
+      const pattern: RecurrencePattern = {
+        type: 'daily',
+        time: '09:00',
+        endDate: at('2026-01-05T20:00:00Z'),
+      };
+
+      expect(next(pattern, '2026-01-05T15:00:00Z')).toBeNull();
+      expect(next(pattern, '2026-01-06T00:00:00Z')).toBeNull();
+    });
+  });
+
+  describe('nth weekday', () => {
+    it('finds the second Tuesday of the month', () => {
+      const pattern: RecurrencePattern = {
+        type: 'nthWeekday',
+        time: '09:00',
+        daysOfWeek: [2],
+        weekOfMonth: 2,
+      };
+
+      expect(next(pattern, '2026-01-01T00:00:00Z')).toBe(
+        '2026-01-13T14:00:00.000Z'
+      );
+      expect(next(pattern, '2026-01-13T15:00:00Z')).toBe(
+        '2026-02-10T14:00:00.000Z'
+      );
+    });
+
+    it('finds the last Friday of the month', () => {
+      const pattern: RecurrencePattern = {
+        type: 'nthWeekday',
+        time: '09:00',
+        daysOfWeek: [5],
+        weekOfMonth: -1,
+      };
+
+      expect(next(pattern, '2026-01-01T00:00:00Z')).toBe(
+        '2026-01-30T14:00:00.000Z'
+      );
+      expect(next(pattern, '2026-02-01T00:00:00Z')).toBe(
+        '2026-02-27T14:00:00.000Z'
+      );
+    });
+  });
+
+  describe('last business day', () => {
+    const pattern: RecurrencePattern = {
+      type: 'lastBusinessDay',
+      time: '09:00',
+    };
+
+    it('moves a month ending on a weekend back to Friday', () => {
+      // January 31 is a Saturday and May 31 a Sunday
+      expect(next(pattern, '2026-01-01T00:00:00Z')).toBe(
+        '2026-01-30T14:00:00.000Z'
+      );
+      expect(next(pattern, '2026-05-01T00:00:00Z')).toBe(
+        '2026-05-29T13:00:00.000Z'
+      );
+    });
+
+    it('keeps a month ending on a weekday', () => {
+      expect(next(pattern, '2026-03-01T00:00:00Z')).toBe(
+        '2026-03-31T13:00:00.000Z'
+      );
+    });
+  });
+
+  describe('hourly', () => {
+    it('steps by the interval from the start date', () => {
+      const pattern: RecurrencePattern = {
+        type: 'hourly',
+        time: '09:00',
+        interval: 3,
+        startDate: at('2026-01-05T14:00:00Z'),
+      };
+
+      expect(next(pattern, '2026-01-05T18:30:00Z')).toBe(
+        '2026-01-05T20:00:00.000Z'
+      );
+    });
+
+    it('keeps elapsed hours across a DST jump', () => {
+      const pattern: RecurrencePattern = {
+        type: 'hourly',
+        time: '01:00',
+        startDate: at('2026-03-08T06:00:00Z'),
+      };
+
+      // 01:00 EST is followed by 03:00 EDT
+      expect(next(pattern, '2026-03-08T06:30:00Z')).toBe(
+        '2026-03-08T07:00:00.000Z'
+      );
+    });
+  });
+
+  describe('month-end clamping', () => {
+    const pattern: RecurrencePattern = {
+      type: 'monthly',
+      time: '09:00',
+      dayOfMonth: 31,
+    };
+
+    it('falls back to the last day of shorter months', () => {
+      expect(next(pattern, '2026-02-01T00:00:00Z')).toBe(
+        '2026-02-28T14:00:00.000Z'
+      );
+      expect(next(pattern, '2026-04-01T00:00:00Z')).toBe(
+        '2026-04-30T13:00:00.000Z'
+      );
+    });
+
+    it('keeps the day in months that have it', () => {
+      expect(next(pattern, '2026-03-01T00:00:00Z')).toBe(
+        '2026-03-31T13:00:00.000Z'
+      );
+    });
+  });
+
+  describe('weekdays with a work schedule', () => {
+    // Monday to Friday, 09:00 to 17:00, with Tuesday January 6 off
+    const workSchedule: WorkSchedule = {
+      enabled: true,
+      workingDays: [1, 2, 3, 4, 5],
+      startTime: '09:00',
+      endTime: '17:00',
+      holidays: ['2026-01-06'],
+    };
+
+    const nextWorkday = (time: string, after: string): string | null => {
+      const wakeTime = calculateNextWakeTime(
+        { type: 'weekdays', time },
+        at(after),
+        TIME_ZONE,
+        workSchedule
+      );
+      return wakeTime === null ? null : new Date(wakeTime).toISOString();
+    };
+
+    it('keeps times inside working hours and skips holidays', () => {
+      // Monday 05:00 EST, then Monday 13:00 EST
+      expect(nextWorkday('12:00', '2026-01-05T10:00:00Z')).toBe(
+        '2026-01-05T17:00:00.000Z'
+      );
+      expect(nextWorkday('12:00', '2026-01-05T18:00:00Z')).toBe(
+        '2026-01-07T17:00:00.000Z'
+      );
+    });
+
+    it('moves an early time to the start of the workday', () => {
+      expect(nextWorkday('07:00', '2026-01-05T10:00:00Z')).toBe(
+        '2026-01-05T14:00:00.000Z'
+      );
+    });
+
+    it('moves a late time to the start of the next working day', () => {
+      // Monday 10:00 EST: Monday's 19:00 wakes at 09:00 on Wednesday, past
+      // the holiday
+      expect(nextWorkday('19:00', '2026-01-05T15:00:00Z')).toBe(
+        '2026-01-07T14:00:00.000Z'
+      );
+      // Friday 10:00 EST: Friday's 19:00 wakes on Monday
+      expect(nextWorkday('19:00', '2026-01-09T15:00:00Z')).toBe(
+        '2026-01-12T14:00:00.000Z'
+      );
+      // Monday 05:00 EST: last Friday's 19:00 is still to wake
+      expect(nextWorkday('19:00', '2026-01-05T10:00:00Z')).toBe(
+        '2026-01-05T14:00:00.000Z'
+      );
+    });
+  });
+
+  describe('DST', () => {
+    it('moves a time skipped by the spring gap forward', () => {
+      const pattern: RecurrencePattern = { type: 'daily', time: '02:30' };
+
+      // 02:30 does not exist on March 8, so it wakes at 03:30 EDT
+      expect(next(pattern, '2026-03-07T12:00:00Z')).toBe(
+        '2026-03-08T07:30:00.000Z'
+      );
+      expect(next(pattern, '2026-03-08T12:00:00Z')).toBe(
+        '2026-03-09T06:30:00.000Z'
+      );
+    });
+
+    it('wakes once, at the first occurrence, in the autumn overlap', () => {
+      const pattern: RecurrencePattern = { type: 'daily', time: '01:30' };
+
+      // 01:30 happens twice on November 1: first in EDT, then in EST
+      expect(next(pattern, '2026-10-31T12:00:00Z')).toBe(
+        '2026-11-01T05:30:00.000Z'
+      );
+      expect(next(pattern, '2026-11-01T05:30:00Z')).toBe(
+        '2026-11-02T06:30:00.000Z'
+      );
+    });
+
+    it('keeps the wall-clock time on both sides of a change', () => {
+      const pattern: RecurrencePattern = { type: 'daily', time: '09:00' };
+
+      expect(next(pattern, '2026-03-07T15:00:00Z')).toBe(
+        '2026-03-08T13:00:00.000Z'
+      );
+      expect(next(pattern, '2026-10-31T14:00:00Z')).toBe(
+        '2026-11-01T14:00:00.000Z'
+      );
+    });
+  });
+});
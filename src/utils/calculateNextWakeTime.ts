@@ -0,0 +1,303 @@
+import { RecurrencePattern, WorkSchedule } from '@types';
+import {
+  getSystemTimeZone,
+  getZonedDateTime,
+  zonedTimeToEpoch,
+} from '@utils/zonedTime';
+
+import { isWorkingDay } from './workSchedule';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Upper bound for the day-by-day search, scaled by the pattern interval
+const SEARCH_DAYS_PER_INTERVAL = 370;
+
+interface CalendarDay {
+  year: number;
+  month: number; // 0-11
+  day: number; // 1-31
+}
+
+// Calendar days are handled as day numbers since the epoch so that DST
+// transitions never shift the arithmetic.
+const toDayNumber = ({ year, month, day }: CalendarDay): number =>
+  Math.floor(Date.UTC(year, month, day) / DAY_MS);
+
+const fromDayNumber = (dayNumber: number): CalendarDay => {
+  const date = new Date(dayNumber * DAY_MS);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth(),
+    day: date.getUTCDate(),
+  };
+};
+
+// 1970-01-01 was a Thursday
+const weekdayOf = (dayNumber: number): number =>
+  (((dayNumber + 4) % 7) + 7) % 7;
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const lastBusinessDayOfMonth = (year: number, month: number): number => {
+  let day = daysInMonth(year, month);
+  let weekday = weekdayOf(toDayNumber({ year, month, day }));
+
+  while (weekday === 0 || weekday === 6) {
+    day -= 1;
+    weekday = (weekday + 6) % 7;
+  }
+
+  return day;
+};
+
+const toZonedDay = (timestamp: number, timeZone: string): CalendarDay => {
+  const { year, month, day } = getZonedDateTime(timestamp, timeZone);
+  return { year, month, day };
+};
+
+const atZonedTime = (
+  calendarDay: CalendarDay,
+  hours: number,
+  minutes: number,
+  timeZone: string
+): number => zonedTimeToEpoch({ ...calendarDay, hours, minutes }, timeZone);
+
+const getInterval = (pattern: RecurrencePattern): number =>
+  Math.max(1, Math.floor(pattern.interval ?? 1));
+
+const isWorkingDayNumber = (
+  workSchedule: WorkSchedule,
+  dayNumber: number
+): boolean => {
+  const { year, month, day } = fromDayNumber(dayNumber);
+  return isWorkingDay(workSchedule, year, month, day, weekdayOf(dayNumber));
+};
+
+interface Slot {
+  dayNumber: number;
+  hours: number;
+  minutes: number;
+}
+
+/**
+ * Moves an occurrence on a working day into working hours, the way
+ * rollToWorkingSlot does for one-off delays: a time before the workday
+ * starts moves to its start, a time at or after its end to the start of the
+ * next working day. Day numbers keep it in the pattern's time zone.
+ */
+function toWorkingSlot(slot: Slot, workSchedule: WorkSchedule): Slot {
+  const [startHours, startMinutes] = workSchedule.startTime
+    .split(':')
+    .map(Number);
+  const [endHours, endMinutes] = workSchedule.endTime.split(':').map(Number);
+  const time = slot.hours * 60 + slot.minutes;
+
+  if (
+    time >= startHours * 60 + startMinutes &&
+    time < endHours * 60 + endMinutes
+  ) {
+    return slot;
+  }
+
+  let { dayNumber } = slot;
+  if (time >= endHours * 60 + endMinutes) {
+    do {
+      dayNumber += 1;
+    } while (
+      !isWorkingDayNumber(workSchedule, dayNumber) &&
+      dayNumber - slot.dayNumber <= SEARCH_DAYS_PER_INTERVAL
+    );
+  }
+
+  return { dayNumber, hours: startHours, minutes: startMinutes };
+}
+
+function matchesDay(
+  pattern: RecurrencePattern,
+  dayNumber: number,
+  workSchedule?: WorkSchedule
+): boolean {
+  const { year, month, day } = fromDayNumber(dayNumber);
+  const weekday = weekdayOf(dayNumber);
+  const daysOfWeek = pattern.daysOfWeek ?? [];
+
+  switch (pattern.type) {
+    case 'daily':
+      return true;
+
+    case 'weekdays':
+      // An enabled work schedule brings its own working days and holidays
+      return workSchedule?.enabled
+        ? isWorkingDayNumber(workSchedule, dayNumber)
+        : weekday >= 1 && weekday <= 5;
+
+    case 'weekly':
+    case 'custom':
+      return daysOfWeek.includes(weekday);
+
+    case 'monthly':
+      // Days that do not exist in a month fall back to its last day
+      return (
+        day === Math.min(pattern.dayOfMonth || 1, daysInMonth(year, month))
+      );
+
+    case 'nthWeekday': {
+      if (!daysOfWeek.includes(weekday)) {
+        return false;
+      }
+      const weekOfMonth = pattern.weekOfMonth ?? 1;
+      if (weekOfMonth === -1) {
+        return day + 7 > daysInMonth(year, month);
+      }
+      return Math.ceil(day / 7) === weekOfMonth;
+    }
+
+    case 'lastBusinessDay':
+      return day === lastBusinessDayOfMonth(year, month);
+
+    default:
+      return false;
+  }
+}
+
+function matchesInterval(
+  pattern: RecurrencePattern,
+  dayNumber: number,
+  anchorDayNumber: number | undefined
+): boolean {
+  const interval = getInterval(pattern);
+
+  if (interval === 1 || anchorDayNumber === undefined) {
+    return true;
+  }
+
+  switch (pattern.type) {
+    case 'daily': {
+      const days = dayNumber - anchorDayNumber;
+      return days >= 0 && days % interval === 0;
+    }
+
+    case 'weekly':
+    case 'custom': {
+      const weekStart = dayNumber - weekdayOf(dayNumber);
+      const anchorWeekStart = anchorDayNumber - weekdayOf(anchorDayNumber);
+      const weeks = (weekStart - anchorWeekStart) / 7;
+      return weeks >= 0 && weeks % interval === 0;
+    }
+
+    case 'monthly':
+    case 'nthWeekday':
+    case 'lastBusinessDay': {
+      const current = fromDayNumber(dayNumber);
+      const anchor = fromDayNumber(anchorDayNumber);
+      const months =
+        current.year * 12 + current.month - (anchor.year * 12 + anchor.month);
+      return months >= 0 && months % interval === 0;
+    }
+
+    default:
+      return true;
+  }
+}
+
+function nextHourlyOccurrence(
+  pattern: RecurrencePattern,
+  after: number,
+  hours: number,
+  minutes: number,
+  timeZone: string
+): number {
+  const step = getInterval(pattern) * HOUR_MS;
+  const base =
+    pattern.startDate ??
+    atZonedTime(toZonedDay(after, timeZone), hours, minutes, timeZone);
+
+  const next = base + (Math.floor((after - base) / step) + 1) * step;
+
+  return pattern.startDate !== undefined ? Math.max(next, base) : next;
+}
+
+/**
+ * Returns the first occurrence of a recurrence pattern strictly after the
+ * given timestamp, or null when the pattern has ended or never matches.
+ * The pattern time is read as wall-clock time in the given IANA zone.
+ * Weekday patterns skip days off and wake within working hours when given
+ * an enabled work schedule.
+ */
+export default function calculateNextWakeTime(
+  pattern: RecurrencePattern,
+  after: number = Date.now(),
+  timeZone: string = pattern.timeZone ?? getSystemTimeZone(),
+  workSchedule?: WorkSchedule
+): number | null {
+  if (pattern.endDate && after >= pattern.endDate) {
+    return null;
+  }
+
+  const [hours, minutes] = pattern.time.split(':').map(Number);
+  if (Number.isNaN(hours) || Number.isNaN(minutes)) {
+    return null;
+  }
+
+  let next: number | null = null;
+
+  if (pattern.type === 'hourly') {
+    next = nextHourlyOccurrence(pattern, after, hours, minutes, timeZone);
+  } else {
+    const firstDay = toDayNumber(toZonedDay(after, timeZone));
+    const anchorDay =
+      pattern.startDate !== undefined
+        ? toDayNumber(toZonedDay(pattern.startDate, timeZone))
+        : undefined;
+    const lastDay = firstDay + SEARCH_DAYS_PER_INTERVAL * getInterval(pattern);
+    const workingHours =
+      pattern.type === 'weekdays' && workSchedule?.enabled
+        ? workSchedule
+        : undefined;
+
+    // A late time on the last working day before the first day can roll
+    // onto it, so the search starts there
+    let searchDay = firstDay;
+    if (workingHours) {
+      do {
+        searchDay -= 1;
+      } while (
+        !isWorkingDayNumber(workingHours, searchDay) &&
+        firstDay - searchDay <= SEARCH_DAYS_PER_INTERVAL
+      );
+    }
+
+    for (let dayNumber = searchDay; dayNumber <= lastDay; dayNumber++) {
+      if (
+        !matchesDay(pattern, dayNumber, workSchedule) ||
+        !matchesInterval(pattern, dayNumber, anchorDay)
+      ) {
+        continue;
+      }
+
+      const slot = workingHours
+        ? toWorkingSlot({ dayNumber, hours, minutes }, workingHours)
+        : { dayNumber, hours, minutes };
+      const candidate = atZonedTime(
+        fromDayNumber(slot.dayNumber),
+        slot.hours,
+        slot.minutes,
+        timeZone
+      );
+      if (
+        candidate > after &&
+        (pattern.startDate === undefined || candidate >= pattern.startDate)
+      ) {
+        next = candidate;
+        break;
+      }
+    }
+  }
+
+  if (next === null || (pattern.endDate && next > pattern.endDate)) {
+    return null;
+  }
+
+  return next;
+}
@@ -0,0 +1,186 @@
+import { DelayPresetId, DelaySettings } from '@types';
+
+import { rollToWorkingSlot } from './workSchedule';
+
+// Presets in the order the popup lists them
+export const DELAY_PRESET_IDS: DelayPresetId[] = [
+  'later_today',
+  'tonight',
+  'tomorrow',
+  'weekend',
+  'next_week',
+  'next_month',
+  'someday',
+];
+
+// Presets that follow the work schedule. Tonight and the weekend are meant
+// to fall outside working hours.
+const WORK_PRESET_IDS: DelayPresetId[] = [
+  'later_today',
+  'tomorrow',
+  'next_week',
+  'next_month',
+  'someday',
+];
+
+const getTimeFromString = (
+  timeString: string
+): { hours: number; minutes: number } => {
+  const [hours, minutes] = timeString.split(':').map(Number);
+  return { hours, minutes };
+};
+
+const calculateNextMonth = (settings: DelaySettings, today: Date): Date => {
+  const targetDate = new Date(today);
+
+  if (settings.nextMonthSameDay) {
+    targetDate.setMonth(today.getMonth() + 1);
+    const lastDayOfNextMonth = new Date(
+      today.getFullYear(),
+      today.getMonth() + 2,
+      0
+    ).getDate();
+    if (today.getDate() > lastDayOfNextMonth) {
+      targetDate.setDate(lastDayOfNextMonth);
+    }
+  } else {
+    // Same weekday in the same week of next month, or its last occurrence
+    const currentDay = today.getDay();
+    const currentWeekOfMonth = Math.ceil(today.getDate() / 7);
+    targetDate.setDate(1);
+    targetDate.setMonth(today.getMonth() + 1);
+
+    while (targetDate.getDay() !== currentDay) {
+      targetDate.setDate(targetDate.getDate() + 1);
+    }
+
+    targetDate.setDate(targetDate.getDate() + (currentWeekOfMonth - 1) * 7);
+
+    if (targetDate.getMonth() !== (today.getMonth() + 1) % 12) {
+      targetDate.setDate(1);
+      targetDate.setMonth((today.getMonth() + 1) % 12);
+
+      let lastOccurrence = 0;
+      const daysInMonth = new Date(
+        targetDate.getFullYear(),
+        targetDate.getMonth() + 1,
+        0
+      ).getDate();
+
+      for (let i = 1; i <= daysInMonth; i++) {
+        targetDate.setDate(i);
+        if (targetDate.getDay() === currentDay) {
+          lastOccurrence = i;
+        }
+      }
+
+      targetDate.setDate(lastOccurrence);
+    }
+  }
+
+  targetDate.setHours(today.getHours(), today.getMinutes(), 0, 0);
+  return targetDate;
+};
+
+function getPresetWakeTime(
+  presetId: DelayPresetId,
+  settings: DelaySettings,
+  now: Date = new Date()
+): number {
+  switch (presetId) {
+    case 'later_today':
+      return now.getTime() + settings.laterToday * 60 * 60 * 1000;
+
+    case 'tonight': {
+      const { hours, minutes } = getTimeFromString(settings.tonightTime);
+      const tonight = new Date(now);
+      tonight.setHours(hours, minutes, 0, 0);
+      if (tonight.getTime() < now.getTime()) {
+        return now.getTime() + 60 * 60 * 1000;
+      }
+      return tonight.getTime();
+    }
+
+    case 'tomorrow': {
+      const { hours, minutes } = getTimeFromString(settings.tomorrowTime);
+      const tomorrow = new Date(now);
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      tomorrow.setHours(hours, minutes, 0, 0);
+      return tomorrow.getTime();
+    }
+
+    case 'weekend': {
+      const { hours, minutes } = getTimeFromString(settings.weekendTime);
+      const currentDay = now.getDay();
+      const targetDay = settings.weekendDay === 'saturday' ? 6 : 0;
+
+      let daysUntilTarget;
+      if (currentDay === targetDay) {
+        daysUntilTarget = 7;
+      } else if (currentDay < targetDay) {
+        daysUntilTarget = targetDay - currentDay;
+      } else {
+        daysUntilTarget = 7 - (currentDay - targetDay);
+      }
+
+      const targetDate = new Date(now);
+      targetDate.setDate(now.getDate() + daysUntilTarget);
+      targetDate.setHours(hours, minutes, 0, 0);
+      return targetDate.getTime();
+    }
+
+    case 'next_week': {
+      const currentDay = now.getDay();
+      const targetDay = settings.nextWeekSameDay
+        ? currentDay
+        : settings.nextWeekDay;
+
+      let daysUntilTarget;
+      if (currentDay === targetDay) {
+        daysUntilTarget = 7;
+      } else if (currentDay < targetDay) {
+        daysUntilTarget = targetDay - currentDay + 7;
+      } else {
+        daysUntilTarget = 7 - (currentDay - targetDay) + 7;
+      }
+
+      const targetDate = new Date(now);
+      targetDate.setDate(now.getDate() + daysUntilTarget);
+      targetDate.setHours(now.getHours(), now.getMinutes(), 0, 0);
+      return targetDate.getTime();
+    }
+
+    case 'next_month':
+      return calculateNextMonth(settings, now).getTime();
+
+    case 'someday':
+    default: {
+      const minMonths = settings.somedayMinMonths;
+      const maxMonths = settings.somedayMaxMonths;
+      const randomMonths =
+        Math.floor(Math.random() * (maxMonths - minMonths + 1)) + minMonths;
+      const randomDays = Math.floor(Math.random() * 30);
+
+      const targetDate = new Date(now);
+      targetDate.setMonth(now.getMonth() + randomMonths);
+      targetDate.setDate(now.getDate() + randomDays);
+      return targetDate.getTime();
+    }
+  }
+}
+
+/**
+ * Resolves a delay preset to a wake time using the user's delay settings,
+ * rolled forward to the next working slot when a work schedule is enabled
+ */
+export default function calculatePresetWakeTime(
+  presetId: DelayPresetId,
+  settings: DelaySettings,
+  now: Date = new Date()
+): number {
+  const wakeTime = getPresetWakeTime(presetId, settings, now);
+
+  return WORK_PRESET_IDS.includes(presetId)
+    ? rollToWorkingSlot(wakeTime, settings.workSchedule)
+    : wakeTime;
+}
@@ -8,6 +8,7 @@ import {
   faClock,
   faCloudSun,
   faCouch,
+  faDoorOpen,
   faEnvelope,
   faFire,
   faGear,
@@ -18,6 +19,7 @@ import {
   faMoon,
   faMountain,
   faMugHot,
+  faPowerOff,
   faRepeat,
   faSnowflake,
   faSquare,
@@ -25,6 +27,7 @@ import {
   faTree,
   faUmbrellaBeach,
   faWater,
+  faWifi,
   faWind,
 } from '@fortawesome/free-solid-svg-icons';
 
@@ -37,6 +40,7 @@ library.add(
   faClock,
   faCloudSun,
   faCouch,
+  faDoorOpen,
   faEnvelope,
   faFire,
   faGear,
@@ -47,6 +51,7 @@ library.add(
   faMoon,
   faMountain,
   faMugHot,
+  faPowerOff,
   faRepeat,
   faSnowflake,
   faSquare,
@@ -54,5 +59,6 @@ library.add(
   faTree,
   faUmbrellaBeach,
   faWater,
+  faWifi,
   faWind
 );
@@ -0,0 +1,70 @@
+import { QuietHoursRange } from '@types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const atTime = (day: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+/**
+ * End of the range covering the given moment, checking ranges that started
+ * yesterday and run past midnight as well as today's
+ */
+function findRangeEnd(ranges: QuietHoursRange[], time: number): number | null {
+  let rangeEnd: number | null = null;
+
+  for (const offset of [-1, 0]) {
+    const day = new Date(time);
+    day.setDate(day.getDate() + offset);
+
+    for (const range of ranges) {
+      if (range.day !== day.getDay()) {
+        continue;
+      }
+
+      const start = atTime(day, range.start);
+      const end = atTime(day, range.end);
+      if (end <= start) {
+        end.setDate(end.getDate() + 1);
+      }
+
+      if (
+        start.getTime() <= time &&
+        time < end.getTime() &&
+        (rangeEnd === null || end.getTime() > rangeEnd)
+      ) {
+        rangeEnd = end.getTime();
+      }
+    }
+  }
+
+  return rangeEnd;
+}
+
+/**
+ * Returns when the quiet period the given moment falls in ends, or null when
+ * it is outside quiet hours. Ranges that touch or overlap count as one period.
+ */
+export default function getQuietHoursEnd(
+  ranges: QuietHoursRange[],
+  now: number = Date.now()
+): number | null {
+  let end = findRangeEnd(ranges, now);
+  if (end === null) {
+    return null;
+  }
+
+  // A week of back-to-back ranges is the longest chain worth following
+  while (end - now < 7 * DAY_MS) {
+    const nextEnd = findRangeEnd(ranges, end);
+    if (nextEnd === null || nextEnd <= end) {
+      break;
+    }
+    end = nextEnd;
+  }
+
+  return end;
+}
@@ -0,0 +1,13 @@
+/**
+ * The host a delayed tab is indexed and filtered by, e.g. "github.com"
+ */
+export default function getUrlHost(url?: string): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    return new URL(url).host || undefined;
+  } catch {
+    return undefined;
+  }
+}
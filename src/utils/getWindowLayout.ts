@@ -0,0 +1,30 @@
+import { DelayedWindowLayout } from '@types';
+
+/**
+ * Reads the size, placement, state and type of a browser window so it can be
+ * reopened the same way. Minimized windows come back in their normal state.
+ */
+export default async function getWindowLayout(
+  windowId: number
+): Promise<DelayedWindowLayout | undefined> {
+  if (typeof chrome === 'undefined' || !chrome.windows) {
+    return undefined;
+  }
+
+  try {
+    const browserWindow = await chrome.windows.get(windowId);
+    const { state, type } = browserWindow;
+
+    return {
+      left: browserWindow.left,
+      top: browserWindow.top,
+      width: browserWindow.width,
+      height: browserWindow.height,
+      state: state === 'maximized' || state === 'fullscreen' ? state : 'normal',
+      type: type === 'popup' ? 'popup' : 'normal',
+    };
+  } catch (error) {
+    console.error('Error reading window:', windowId, error);
+    return undefined;
+  }
+}
@@ -0,0 +1,170 @@
+import { formatLocalDate } from './workSchedule';
+
+// One property line of an iCalendar component, e.g.
+// DTSTART;VALUE=DATE:20261225
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest all-day event expanded into single holiday dates
+const MAX_EVENT_DAYS = 31;
+// Content lines longer than this many bytes are folded
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Joins folded lines back together: a line starting with a space or tab
+ * continues the previous one (RFC 5545, section 3.1)
+ */
+export const unfoldIcsLines = (text: string): string[] =>
+  text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+
+/**
+ * Splits a content line into lines of at most 75 bytes, each continuation
+ * starting with a space. Characters are never split.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const character of line) {
+    const size = encoder.encode(character).length;
+    // Continuation lines lose one byte to their leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += character;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+}
+
+export const escapeIcsText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+export const unescapeIcsText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_, character: string) =>
+    character.toLowerCase() === 'n' ? '\n' : character
+  );
+
+/**
+ * Formats a timestamp as a UTC date-time, e.g. 20261225T090000Z
+ */
+export const formatIcsUtc = (timestamp: number): string =>
+  new Date(timestamp)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+export function parseIcsProperty(line: string): IcsProperty | null {
+  const colon = line.indexOf(':');
+  if (colon <= 0) {
+    return null;
+  }
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Reads every VEVENT of a calendar as a list of its properties
+ */
+export function parseIcsEvents(text: string): IcsProperty[][] {
+  const events: IcsProperty[][] = [];
+  let current: IcsProperty[] | null = null;
+
+  for (const line of unfoldIcsLines(text)) {
+    const property = parseIcsProperty(line);
+    if (!property) {
+      continue;
+    }
+
+    if (property.name === 'BEGIN' && property.value === 'VEVENT') {
+      current = [];
+    } else if (property.name === 'END' && property.value === 'VEVENT') {
+      if (current) {
+        events.push(current);
+      }
+      current = null;
+    } else if (current) {
+      current.push(property);
+    }
+  }
+
+  return events;
+}
+
+// Dates and date-times both start with YYYYMMDD
+const parseIcsDay = (value: string): Date | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match
+    ? new Date(
+        Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+      )
+    : null;
+};
+
+/**
+ * Collects the days covered by the events of a holiday calendar as
+ * YYYY-MM-DD dates. All-day events spanning several days count each day;
+ * DTEND is exclusive.
+ */
+export function parseIcsHolidays(text: string): string[] {
+  const holidays = new Set<string>();
+
+  for (const event of parseIcsEvents(text)) {
+    const start = parseIcsDay(
+      event.find((property) => property.name === 'DTSTART')?.value ?? ''
+    );
+    if (!start) {
+      continue;
+    }
+
+    const end = parseIcsDay(
+      event.find((property) => property.name === 'DTEND')?.value ?? ''
+    );
+    const days =
+      end && end > start
+        ? Math.min(
+            Math.round((end.getTime() - start.getTime()) / DAY_MS),
+            MAX_EVENT_DAYS
+          )
+        : 1;
+
+    for (let offset = 0; offset < days; offset++) {
+      const day = new Date(start.getTime() + offset * DAY_MS);
+      holidays.add(
+        formatLocalDate(
+          day.getUTCFullYear(),
+          day.getUTCMonth(),
+          day.getUTCDate()
+        )
+      );
+    }
+  }
+
+  return [...holidays].sort();
+}
@@ -0,0 +1,261 @@
+import { DelayedTab, RecurrencePattern } from '@types';
+import { describe, expect, it } from 'vitest';
+
+import calculateNextWakeTime from './calculateNextWakeTime';
+import { foldIcsLine, unfoldIcsLines } from './ics';
+import {
+  exportDelayedTabsToIcs,
+  importDelayedTabsFromIcs,
+} from './icsDelayedTabs';
+
+const TIME_ZONE = 'America/New_York';
+
+// Monday, January 5 2026 at 09:00 in New York
+const START = Date.parse('2026-01-05T14:00:00Z');
+const now = START - 60 * 60 * 1000;
+
+const makeTab = (extra: Partial<DelayedTab> = {}): DelayedTab => ({
+  id: 'tab-1',
+  url: 'https://example.com/read?a=1,b=2',
+  title: 'Report; Q1, draft',
+  createdAt: now - 1000,
+  wakeTime: START,
+  ...extra,
+});
+
+const makeRecurringTab = (
+  pattern: Omit<RecurrencePattern, 'time' | 'timeZone' | 'startDate'>
+): DelayedTab => {
+  const recurrencePattern: RecurrencePattern = {
+    time: '09:00',
+    timeZone: TIME_ZONE,
+    startDate: START,
+    ...pattern,
+  };
+  return makeTab({
+    wakeTime: calculateNextWakeTime(recurrencePattern, now) ?? START,
+    isRecurring: true,
+    recurrencePattern,
+  });
+};
+
+// Drops the property that carries the exact record, so the file reads like
+// one written by another calendar app
+const withoutDelayoRecord = (ics: string): string =>
+  unfoldIcsLines(ics)
+    .filter((line) => !line.startsWith('X-DELAYO-TAB'))
+    .join('\r\n');
+
+const occurrences = (pattern: RecurrencePattern, count = 8): number[] => {
+  const result: number[] = [];
+  let after = now;
+  for (let index = 0; index < count; index++) {
+    const next = calculateNextWakeTime(pattern, after);
+    if (next === null) {
+      break;
+    }
+    result.push(next);
+    after = next;
+  }
+  return result;
+};
+
+const PATTERNS: Record<
+  string,
+  Omit<RecurrencePattern, 'time' | 'timeZone' | 'startDate'>
+> = {
+  hourly: { type: 'hourly', interval: 4 },
+  daily: { type: 'daily' },
+  'every 3 days': { type: 'daily', interval: 3 },
+  weekdays: { type: 'weekdays' },
+  weekly: { type: 'weekly', daysOfWeek: [1, 3] },
+  'custom every 2 weeks': { type: 'custom', daysOfWeek: [2, 4], interval: 2 },
+  'monthly on day 15': { type: 'monthly', dayOfMonth: 15 },
+  'monthly on day 31': { type: 'monthly', dayOfMonth: 31 },
+  'every 2 months on day 31': {
+    type: 'monthly',
+    dayOfMonth: 31,
+    interval: 2,
+  },
+  'second Monday and Wednesday': {
+    type: 'nthWeekday',
+    daysOfWeek: [1, 3],
+    weekOfMonth: 2,
+  },
+  'last Friday': { type: 'nthWeekday', daysOfWeek: [5], weekOfMonth: -1 },
+  'last business day': { type: 'lastBusinessDay' },
+  'last business day every 3 months': {
+    type: 'lastBusinessDay',
+    interval: 3,
+  },
+};
+
+const calendarEvent = (...lines: string[]): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'BEGIN:VEVENT',
+    'UID:event-1',
+    'SUMMARY:Team sync',
+    ...lines,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+describe('exportDelayedTabsToIcs and importDelayedTabsFromIcs', () => {
+  it('bring back a one-off tab unchanged, except for missedAt', () => {
+    const tab = makeTab({ missedAt: now });
+    const [imported] = importDelayedTabsFromIcs(
+      exportDelayedTabsToIcs([tab]),
+      now
+    );
+
+    expect(imported).toEqual({ ...tab, missedAt: undefined });
+  });
+
+  it('keep a one-off tab from its DTSTART, URL and SUMMARY alone', () => {
+    const [imported] = importDelayedTabsFromIcs(
+      withoutDelayoRecord(exportDelayedTabsToIcs([makeTab()])),
+      now
+    );
+
+    expect(imported).toMatchObject({
+      id: 'tab-1',
+      url: 'https://example.com/read?a=1,b=2',
+      title: 'Report; Q1, draft',
+      wakeTime: START,
+    });
+  });
+
+  it('leave out tabs waiting for an event', () => {
+    const ics = exportDelayedTabsToIcs([
+      makeTab({ id: 'timed' }),
+      makeTab({ id: 'idle', trigger: 'idleReturn' }),
+    ]);
+
+    expect(importDelayedTabsFromIcs(ics, now).map((tab) => tab.id)).toEqual([
+      'timed',
+    ]);
+  });
+
+  describe.each(Object.entries(PATTERNS))('%s', (_, pattern) => {
+    const tab = makeRecurringTab(pattern);
+    const ics = exportDelayedTabsToIcs([tab]);
+
+    it('comes back unchanged', () => {
+      expect(importDelayedTabsFromIcs(ics, now)).toEqual([tab]);
+    });
+
+    it('repeats on the same days from its RRULE alone', () => {
+      const [imported] = importDelayedTabsFromIcs(
+        withoutDelayoRecord(ics),
+        now
+      );
+
+      expect(imported.recurrencePattern).toBeDefined();
+      expect(imported.wakeTime).toBe(tab.wakeTime);
+      expect(occurrences(imported.recurrencePattern!)).toEqual(
+        occurrences(tab.recurrencePattern!)
+      );
+    });
+  });
+});
+
+describe('importDelayedTabsFromIcs with events from other calendars', () => {
+  it('takes the URL from the description without trailing punctuation', () => {
+    const [tab] = importDelayedTabsFromIcs(
+      calendarEvent(
+        'DTSTART:20260105T140000Z',
+        'DESCRIPTION:Agenda\\, notes: https://example.com/agenda?id=7.'
+      ),
+      now
+    );
+
+    expect(tab).toMatchObject({
+      id: 'event-1',
+      url: 'https://example.com/agenda?id=7',
+      title: 'Team sync',
+      wakeTime: START,
+    });
+    expect(tab.isRecurring).toBeUndefined();
+  });
+
+  it('skips events without a URL and past one-off events', () => {
+    expect(
+      importDelayedTabsFromIcs(
+        calendarEvent('DTSTART:20260105T140000Z', 'DESCRIPTION:No link'),
+        now
+      )
+    ).toEqual([]);
+    expect(
+      importDelayedTabsFromIcs(
+        calendarEvent(
+          'DTSTART:20250105T140000Z',
+          'URL:https://example.com/old'
+        ),
+        now
+      )
+    ).toEqual([]);
+  });
+
+  it('ends a series after COUNT occurrences', () => {
+    const [tab] = importDelayedTabsFromIcs(
+      calendarEvent(
+        `DTSTART;TZID=${TIME_ZONE}:20260105T090000`,
+        'RRULE:FREQ=DAILY;COUNT=3',
+        'URL:https://example.com/standup'
+      ),
+      now
+    );
+
+    expect(occurrences(tab.recurrencePattern!)).toEqual([
+      Date.parse('2026-01-05T14:00:00Z'),
+      Date.parse('2026-01-06T14:00:00Z'),
+      Date.parse('2026-01-07T14:00:00Z'),
+    ]);
+  });
+
+  it('skips series it cannot repeat faithfully', () => {
+    const importRule = (...lines: string[]): DelayedTab[] =>
+      importDelayedTabsFromIcs(
+        calendarEvent(
+          `DTSTART;TZID=${TIME_ZONE}:20260105T090000`,
+          'URL:https://example.com/standup',
+          ...lines
+        ),
+        now
+      );
+
+    expect(importRule('RRULE:FREQ=DAILY', 'EXDATE:20260106T140000Z')).toEqual(
+      []
+    );
+    expect(importRule('RRULE:FREQ=MONTHLY;BYDAY=1MO,3WE')).toEqual([]);
+    expect(importRule('RRULE:FREQ=MONTHLY;BYDAY=MO')).toEqual([]);
+    expect(importRule('RRULE:FREQ=YEARLY')).toEqual([]);
+    expect(importRule('RRULE:FREQ=WEEKLY;BYMONTH=1')).toEqual([]);
+    expect(importRule('RRULE:FREQ=DAILY;BYHOUR=9,17')).toEqual([]);
+  });
+});
+
+describe('foldIcsLine', () => {
+  const byteLength = (text: string): number =>
+    new TextEncoder().encode(text).length;
+
+  it('folds by bytes without splitting multibyte characters', () => {
+    const line = `SUMMARY:${'Reunião às 9h ☕ 🎉 '.repeat(8)}`;
+    const folded = foldIcsLine(line);
+    const [first, ...rest] = folded.split('\r\n');
+
+    expect(byteLength(first)).toBeLessThanOrEqual(75);
+    rest.forEach((part) => {
+      expect(part.startsWith(' ')).toBe(true);
+      expect(byteLength(part)).toBeLessThanOrEqual(75);
+    });
+    expect(folded).not.toMatch(/�/);
+    expect(unfoldIcsLines(folded)).toEqual([line]);
+  });
+
+  it('leaves short lines alone', () => {
+    expect(foldIcsLine('SUMMARY:Café')).toBe('SUMMARY:Café');
+  });
+});
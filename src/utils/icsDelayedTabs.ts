@@ -0,0 +1,477 @@
+import { DelayedTab, RecurrencePattern } from '@types';
+import calculateNextWakeTime from '@utils/calculateNextWakeTime';
+import generateUniqueTabId from '@utils/generateUniqueTabId';
+import isTimedTab from '@utils/isTimedTab';
+import { validateDelayedTab } from '@utils/validation';
+import {
+  getSystemTimeZone,
+  getZonedDateTime,
+  isValidTimeZone,
+  zonedTimeToEpoch,
+} from '@utils/zonedTime';
+
+import {
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsUtc,
+  IcsProperty,
+  parseIcsEvents,
+  unescapeIcsText,
+} from './ics';
+
+// Carries the exact delayed tab so an exported file imports unchanged
+const TAB_PROPERTY = 'X-DELAYO-TAB';
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const BUSINESS_DAYS = 'MO,TU,WE,TH,FR';
+// Rule parts fromRrule can repeat as written; any other part changes which
+// occurrences happen
+const SUPPORTED_RULE_PARTS = [
+  'FREQ',
+  'INTERVAL',
+  'UNTIL',
+  'COUNT',
+  'BYDAY',
+  'BYMONTHDAY',
+  'BYSETPOS',
+  'WKST',
+];
+const BY_DAY_PATTERN = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+const URL_PATTERN = /https?:\/\/[^\s"<>]+/;
+// Punctuation right after a URL in running text belongs to the sentence
+const TRAILING_PUNCTUATION = /[.,;:!?)]+$/;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Local date of a timestamp in the given zone, at the given HH:MM time or
+// at the timestamp's own time
+const formatLocalDateTime = (
+  timestamp: number,
+  timeZone: string,
+  time?: string
+): string => {
+  const { year, month, day, ...zoned } = getZonedDateTime(timestamp, timeZone);
+  const [hours, minutes] = time
+    ? time.split(':').map(Number)
+    : [zoned.hours, zoned.minutes];
+  return `${year}${pad(month + 1)}${pad(day)}T${pad(hours)}${pad(minutes)}00`;
+};
+
+/**
+ * Writes a recurrence pattern as an RRULE value. Monthly days past the 28th
+ * list the shorter month ends too, so short months wake on their last day
+ * as they do here.
+ */
+function toRrule(pattern: RecurrencePattern): string {
+  const days = (pattern.daysOfWeek ?? []).map((day) => WEEKDAY_CODES[day]);
+  const interval = Math.max(1, Math.floor(pattern.interval ?? 1));
+  const parts: string[] = [];
+
+  switch (pattern.type) {
+    case 'hourly':
+      parts.push('FREQ=HOURLY');
+      break;
+    case 'daily':
+      parts.push('FREQ=DAILY');
+      break;
+    case 'weekdays':
+      parts.push('FREQ=WEEKLY', `BYDAY=${BUSINESS_DAYS}`);
+      break;
+    case 'weekly':
+    case 'custom':
+      parts.push('FREQ=WEEKLY', `BYDAY=${days.join(',')}`);
+      break;
+    case 'monthly': {
+      const dayOfMonth = pattern.dayOfMonth || 1;
+      parts.push('FREQ=MONTHLY');
+      if (dayOfMonth > 28) {
+        const monthEnds = [];
+        for (let day = 28; day <= dayOfMonth; day++) {
+          monthEnds.push(day);
+        }
+        parts.push(`BYMONTHDAY=${monthEnds.join(',')}`, 'BYSETPOS=-1');
+      } else {
+        parts.push(`BYMONTHDAY=${dayOfMonth}`);
+      }
+      break;
+    }
+    case 'nthWeekday': {
+      const weekOfMonth = pattern.weekOfMonth ?? 1;
+      parts.push(
+        'FREQ=MONTHLY',
+        `BYDAY=${days.map((day) => `${weekOfMonth}${day}`).join(',')}`
+      );
+      break;
+    }
+    case 'lastBusinessDay':
+      parts.push('FREQ=MONTHLY', `BYDAY=${BUSINESS_DAYS}`, 'BYSETPOS=-1');
+      break;
+    default:
+      break;
+  }
+
+  if (interval > 1) {
+    parts.push(`INTERVAL=${interval}`);
+    // Week intervals here count weeks starting on Sunday
+    if (parts[0] === 'FREQ=WEEKLY') {
+      parts.push('WKST=SU');
+    }
+  }
+  if (pattern.endDate !== undefined) {
+    parts.push(`UNTIL=${formatIcsUtc(pattern.endDate)}`);
+  }
+
+  return parts.join(';');
+}
+
+function toIcsEvent(tab: DelayedTab): string[] {
+  // Waiting for a catch-up choice only makes sense in this browser
+  const exportedTab: DelayedTab = { ...tab, missedAt: undefined };
+  const pattern = tab.isRecurring ? tab.recurrencePattern : undefined;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${escapeIcsText(tab.id)}`,
+    `DTSTAMP:${formatIcsUtc(tab.createdAt)}`,
+    `CREATED:${formatIcsUtc(tab.createdAt)}`,
+  ];
+
+  if (pattern) {
+    const timeZone = pattern.timeZone ?? tab.timeZone ?? getSystemTimeZone();
+    // Hourly patterns repeat from the start itself, the others at their time
+    const start = formatLocalDateTime(
+      pattern.startDate ?? tab.wakeTime,
+      timeZone,
+      pattern.type === 'hourly' ? undefined : pattern.time
+    );
+    lines.push(
+      `DTSTART;TZID=${timeZone}:${start}`,
+      `RRULE:${toRrule(pattern)}`
+    );
+  } else {
+    lines.push(`DTSTART:${formatIcsUtc(tab.wakeTime)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeIcsText(tab.title || tab.url || 'Delayed tab')}`);
+  if (tab.url) {
+    lines.push(`URL:${tab.url}`, `DESCRIPTION:${escapeIcsText(tab.url)}`);
+  }
+  lines.push(
+    `${TAB_PROPERTY}:${escapeIcsText(JSON.stringify(exportedTab))}`,
+    'END:VEVENT'
+  );
+
+  return lines;
+}
+
+/**
+ * Writes delayed tabs as an iCalendar file, one event per tab. Recurring
+ * tabs become events with an RRULE starting at their first occurrence.
+ * Tabs waiting for an event have no time to put in a calendar and are left
+ * out.
+ */
+export function exportDelayedTabsToIcs(tabs: DelayedTab[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Delayo//Delayed tabs//EN',
+    'CALSCALE:GREGORIAN',
+    ...tabs.filter(isTimedTab).flatMap(toIcsEvent),
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+}
+
+const findProperty = (
+  event: IcsProperty[],
+  name: string
+): IcsProperty | undefined => event.find((property) => property.name === name);
+
+// DATE-TIME values are read as UTC, in their TZID or as local time; DATE
+// values as local midnight
+function parseIcsDateTime(
+  property: IcsProperty
+): { timestamp: number; timeZone: string } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z?))?$/.exec(
+    property.value
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours = '0', minutes = '0', utc] = match;
+  const dateTime = {
+    year: Number(year),
+    month: Number(month) - 1,
+    day: Number(day),
+    hours: Number(hours),
+    minutes: Number(minutes),
+  };
+
+  const timeZone = utc
+    ? 'UTC'
+    : property.params.TZID && isValidTimeZone(property.params.TZID)
+      ? property.params.TZID
+      : getSystemTimeZone();
+
+  return { timestamp: zonedTimeToEpoch(dateTime, timeZone), timeZone };
+}
+
+/**
+ * Reads the rule parts that pick the days into a recurrence pattern, or
+ * returns null when they do not map onto one exactly
+ */
+function readRuleDays(
+  rule: Record<string, string>,
+  start: ReturnType<typeof getZonedDateTime>,
+  base: Omit<RecurrencePattern, 'type'>
+): RecurrencePattern | null {
+  const byDay = rule.BYDAY ? rule.BYDAY.split(',') : [];
+  const dayMatches = byDay.map((code) => BY_DAY_PATTERN.exec(code));
+  if (!dayMatches.every((match) => match !== null)) {
+    return null;
+  }
+  const weekdays = dayMatches.map(([, , code]) => WEEKDAY_CODES.indexOf(code));
+  // Ordinals such as the 2 in 2MO, missing for plain weekdays
+  const ordinals = new Set<string | undefined>(
+    dayMatches.map(([, ordinal]) => ordinal)
+  );
+  const monthDays = rule.BYMONTHDAY
+    ? rule.BYMONTHDAY.split(',').map(Number)
+    : [];
+
+  switch (rule.FREQ) {
+    case 'HOURLY':
+    case 'DAILY':
+      if (rule.BYDAY || rule.BYMONTHDAY || rule.BYSETPOS) {
+        return null;
+      }
+      return { type: rule.FREQ === 'HOURLY' ? 'hourly' : 'daily', ...base };
+
+    case 'WEEKLY':
+      if (
+        rule.BYMONTHDAY ||
+        rule.BYSETPOS ||
+        [...ordinals].some((ordinal) => ordinal !== undefined)
+      ) {
+        return null;
+      }
+      if (rule.BYDAY === BUSINESS_DAYS && base.interval === undefined) {
+        return { type: 'weekdays', ...base };
+      }
+      return {
+        type: 'weekly',
+        daysOfWeek:
+          weekdays.length > 0
+            ? weekdays
+            : [
+                new Date(
+                  Date.UTC(start.year, start.month, start.day)
+                ).getUTCDay(),
+              ],
+        ...base,
+      };
+
+    case 'MONTHLY': {
+      if (rule.BYDAY === BUSINESS_DAYS && rule.BYSETPOS === '-1') {
+        return rule.BYMONTHDAY ? null : { type: 'lastBusinessDay', ...base };
+      }
+      if (byDay.length > 0) {
+        // Every listed day must share one ordinal, such as 2MO,2WE
+        const [ordinal] = [...ordinals];
+        const weekOfMonth = Number(ordinal);
+        if (
+          rule.BYMONTHDAY ||
+          rule.BYSETPOS ||
+          ordinals.size > 1 ||
+          ordinal === undefined ||
+          (weekOfMonth !== -1 && (weekOfMonth < 1 || weekOfMonth > 4))
+        ) {
+          return null;
+        }
+        return {
+          type: 'nthWeekday',
+          daysOfWeek: weekdays,
+          weekOfMonth,
+          ...base,
+        };
+      }
+      // Month ends written as BYMONTHDAY=28,...,31;BYSETPOS=-1 or as -1
+      if (rule.BYSETPOS) {
+        const isMonthEnd =
+          rule.BYSETPOS === '-1' &&
+          monthDays.length > 0 &&
+          monthDays.every((day) => day >= 28);
+        return isMonthEnd
+          ? { type: 'monthly', dayOfMonth: Math.max(...monthDays), ...base }
+          : null;
+      }
+      if (monthDays.length > 1) {
+        return null;
+      }
+      const [dayOfMonth = start.day] = monthDays;
+      if (dayOfMonth === -1) {
+        return { type: 'monthly', dayOfMonth: 31, ...base };
+      }
+      return Number.isInteger(dayOfMonth) && dayOfMonth >= 1 && dayOfMonth <= 31
+        ? { type: 'monthly', dayOfMonth, ...base }
+        : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads an RRULE into a recurrence pattern starting at the given time, or
+ * returns null for rules this extension cannot repeat. COUNT becomes an
+ * end date at the last occurrence it allows.
+ */
+function fromRrule(
+  rrule: string,
+  startDate: number,
+  timeZone: string
+): RecurrencePattern | null {
+  const rule: Record<string, string> = {};
+  for (const part of rrule.split(';')) {
+    const [key, value = ''] = part.split('=');
+    rule[key.toUpperCase()] = value.toUpperCase();
+  }
+  if (Object.keys(rule).some((key) => !SUPPORTED_RULE_PARTS.includes(key))) {
+    return null;
+  }
+
+  const interval = Number(rule.INTERVAL || 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : undefined;
+  if (
+    !Number.isInteger(interval) ||
+    interval < 1 ||
+    (count !== undefined && (!Number.isInteger(count) || count < 1))
+  ) {
+    return null;
+  }
+
+  const start = getZonedDateTime(startDate, timeZone);
+  const until = rule.UNTIL
+    ? parseIcsDateTime({ name: 'UNTIL', params: {}, value: rule.UNTIL })
+    : null;
+  const pattern = readRuleDays(rule, start, {
+    time: `${pad(start.hours)}:${pad(start.minutes)}`,
+    timeZone,
+    startDate,
+    ...(interval > 1 && { interval }),
+    ...(until && { endDate: until.timestamp }),
+  });
+
+  if (!pattern || count === undefined) {
+    return pattern;
+  }
+
+  let lastOccurrence = startDate - 1;
+  for (let index = 0; index < count; index++) {
+    const next = calculateNextWakeTime(pattern, lastOccurrence, timeZone);
+    if (next === null) {
+      break;
+    }
+    lastOccurrence = next;
+  }
+
+  return lastOccurrence < startDate
+    ? null
+    : { ...pattern, endDate: lastOccurrence };
+}
+
+function readExportedTab(event: IcsProperty[]): DelayedTab | null {
+  const property = findProperty(event, TAB_PROPERTY);
+  if (!property) {
+    return null;
+  }
+
+  try {
+    const tab: unknown = JSON.parse(unescapeIcsText(property.value));
+    return validateDelayedTab(tab) ? null : (tab as DelayedTab);
+  } catch (error) {
+    return null;
+  }
+}
+
+// Events from other calendars: the URL is taken from the URL property,
+// then from the description or location
+function readCalendarEvent(
+  event: IcsProperty[],
+  now: number
+): DelayedTab | null {
+  const url = ['URL', 'DESCRIPTION', 'LOCATION']
+    .map((name) => findProperty(event, name))
+    .map((property) => property && unescapeIcsText(property.value))
+    .map(
+      (value) =>
+        value && URL_PATTERN.exec(value)?.[0].replace(TRAILING_PUNCTUATION, '')
+    )
+    .find(Boolean);
+  const dtstart = findProperty(event, 'DTSTART');
+  const start = dtstart && parseIcsDateTime(dtstart);
+  if (!url || !start) {
+    return null;
+  }
+
+  const rrule = findProperty(event, 'RRULE');
+  // Added and excluded dates cannot be kept, so such series are left out
+  // rather than imported with the wrong occurrences
+  if (
+    rrule &&
+    (findProperty(event, 'EXDATE') || findProperty(event, 'RDATE'))
+  ) {
+    return null;
+  }
+  const pattern = rrule
+    ? fromRrule(rrule.value, start.timestamp, start.timeZone)
+    : null;
+  if (rrule && !pattern) {
+    return null;
+  }
+
+  let wakeTime = start.timestamp;
+  if (pattern) {
+    const nextWakeTime = calculateNextWakeTime(
+      pattern,
+      Math.max(start.timestamp, now) - 1,
+      start.timeZone
+    );
+    if (nextWakeTime === null) {
+      return null;
+    }
+    wakeTime = nextWakeTime;
+  } else if (wakeTime <= now) {
+    // Past one-off events would all open at once
+    return null;
+  }
+
+  const summary = findProperty(event, 'SUMMARY');
+  const uid = findProperty(event, 'UID');
+
+  return {
+    id: uid ? unescapeIcsText(uid.value) : generateUniqueTabId(),
+    url,
+    title: summary ? unescapeIcsText(summary.value) : url,
+    createdAt: now,
+    wakeTime,
+    timeZone: start.timeZone,
+    ...(pattern && { isRecurring: true, recurrencePattern: pattern }),
+  };
+}
+
+/**
+ * Turns the events of an iCalendar file that carry a URL into delayed tabs.
+ * Files exported by this extension come back exactly as they were; events
+ * from other calendars wake at their next occurrence, and past one-off
+ * events are skipped.
+ */
+export function importDelayedTabsFromIcs(
+  text: string,
+  now: number = Date.now()
+): DelayedTab[] {
+  return parseIcsEvents(text)
+    .map((event) => readExportedTab(event) ?? readCalendarEvent(event, now))
+    .filter((tab): tab is DelayedTab => tab !== null);
+}
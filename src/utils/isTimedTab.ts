@@ -0,0 +1,8 @@
+import { DelayedTab } from '@types';
+
+/**
+ * Whether a delayed tab wakes at its wakeTime rather than on an event
+ */
+export default function isTimedTab(tab: DelayedTab): boolean {
+  return (tab.trigger ?? 'time') === 'time';
+}
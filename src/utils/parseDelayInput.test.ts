@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import parseDelayInput from './parseDelayInput';
+import { DEFAULT_DELAY_SETTINGS } from './validation';
+
+const HOUR = 60 * 60 * 1000;
+
+// Monday, January 5 2026 at 10:00 local time
+const now = new Date(2026, 0, 5, 10, 0);
+
+const parse = (input: string, locale?: string) =>
+  parseDelayInput(input, DEFAULT_DELAY_SETTINGS, now, locale);
+
+describe('parseDelayInput', () => {
+  describe('relative times', () => {
+    it('reads durations after "in" in every language', () => {
+      expect(parse('in 3h')?.wakeTime).toBe(now.getTime() + 3 * HOUR);
+      expect(parse('em 15h', 'pt')?.wakeTime).toBe(now.getTime() + 15 * HOUR);
+      expect(parse('en 2 horas', 'es')?.wakeTime).toBe(
+        now.getTime() + 2 * HOUR
+      );
+      expect(parse('in 1h 30m')?.wakeTime).toBe(now.getTime() + 1.5 * HOUR);
+    });
+
+    it('keeps the decimal point in amounts', () => {
+      expect(parse('in 1.5h')?.wakeTime).toBe(now.getTime() + 1.5 * HOUR);
+      expect(parse('em 1,5h', 'pt')?.wakeTime).toBe(now.getTime() + 1.5 * HOUR);
+    });
+
+    it('reads spelled out units without "in"', () => {
+      expect(parse('45 minutes')?.wakeTime).toBe(now.getTime() + 0.75 * HOUR);
+      expect(parse('2 dias', 'pt')?.wakeTime).toBe(now.getTime() + 48 * HOUR);
+    });
+  });
+
+  describe('times of day', () => {
+    it('reads a bare "15h" as 15:00 in Spanish and Portuguese', () => {
+      const expected = new Date(2026, 0, 5, 15, 0).getTime();
+
+      expect(parse('15h', 'pt')).toMatchObject({
+        wakeTime: expected,
+        ambiguous: false,
+      });
+      expect(parse('15h', 'es')?.wakeTime).toBe(expected);
+      expect(parse('15 horas', 'pt')?.wakeTime).toBe(expected);
+    });
+
+    it('does not read a bare "15h" as a delay in English', () => {
+      expect(parse('15h', 'en')?.wakeTime).toBe(
+        new Date(2026, 0, 5, 15, 0).getTime()
+      );
+    });
+
+    it('moves a time that already passed to tomorrow', () => {
+      expect(parse('9h', 'pt')?.wakeTime).toBe(
+        new Date(2026, 0, 6, 9, 0).getTime()
+      );
+    });
+  });
+});
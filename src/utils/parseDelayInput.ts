@@ -0,0 +1,424 @@
+import { DelayPresetId, DelaySettings } from '@types';
+
+import calculatePresetWakeTime from './calculatePresetWakeTime';
+
+export type DelayInputLocale = 'en' | 'es' | 'pt';
+
+export interface ParsedDelay {
+  wakeTime: number;
+  presetId?: DelayPresetId;
+  locale: DelayInputLocale;
+  // The phrase has another reasonable reading, e.g. "at 3" or "next friday"
+  ambiguous: boolean;
+}
+
+interface Vocabulary {
+  presets: Record<string, DelayPresetId>;
+  units: Array<[RegExp, number]>;
+  // Units spelled out enough to read "45 minutes" as a delay without "in"
+  spelledUnits: RegExp;
+  weekdays: string[]; // Sunday first
+  today: string[];
+  tomorrow: string[];
+  dayAfterTomorrow: string[];
+  endOfMonth: string[];
+  relativePrefix: RegExp;
+  timePrefix: RegExp;
+  nextPrefix: RegExp;
+  nextSuffix?: RegExp;
+  articles: RegExp;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+// Phrases are matched without accents, so "amanhã" and "amanha" both work
+const VOCABULARIES: Record<DelayInputLocale, Vocabulary> = {
+  en: {
+    presets: {
+      later: 'later_today',
+      'later today': 'later_today',
+      tonight: 'tonight',
+      tomorrow: 'tomorrow',
+      weekend: 'weekend',
+      'this weekend': 'weekend',
+      'next week': 'next_week',
+      'next month': 'next_month',
+      someday: 'someday',
+    },
+    units: [
+      [/^(m|mins?|minutes?)$/, MINUTE],
+      [/^(h|hrs?|hours?)$/, HOUR],
+      [/^(d|days?)$/, DAY],
+      [/^(w|wks?|weeks?)$/, WEEK],
+    ],
+    spelledUnits: /^(mins?|minutes?|hrs?|hours?|days?|wks?|weeks?)$/,
+    weekdays: [
+      'sunday',
+      'monday',
+      'tuesday',
+      'wednesday',
+      'thursday',
+      'friday',
+      'saturday',
+    ],
+    today: ['today', 'tonight'],
+    tomorrow: ['tomorrow', 'tmr', 'tmrw'],
+    dayAfterTomorrow: ['day after tomorrow'],
+    endOfMonth: ['end of month', 'end of the month'],
+    relativePrefix: /^in /,
+    timePrefix: /(?:^| )at$/,
+    nextPrefix: /^next /,
+    articles: /^on /,
+  },
+  es: {
+    presets: {
+      'mas tarde': 'later_today',
+      'hoy mas tarde': 'later_today',
+      'esta noche': 'tonight',
+      manana: 'tomorrow',
+      'fin de semana': 'weekend',
+      'este fin de semana': 'weekend',
+      'proxima semana': 'next_week',
+      'la proxima semana': 'next_week',
+      'semana que viene': 'next_week',
+      'proximo mes': 'next_month',
+      'el proximo mes': 'next_month',
+      'mes que viene': 'next_month',
+      'algun dia': 'someday',
+    },
+    units: [
+      [/^(m|min|minutos?)$/, MINUTE],
+      [/^(h|horas?)$/, HOUR],
+      [/^(d|dias?)$/, DAY],
+      [/^(semanas?)$/, WEEK],
+    ],
+    // "15 horas" is a time of day, like "15h"
+    spelledUnits: /^(min|minutos?|dias?|semanas?)$/,
+    weekdays: [
+      'domingo',
+      'lunes',
+      'martes',
+      'miercoles',
+      'jueves',
+      'viernes',
+      'sabado',
+    ],
+    today: ['hoy', 'esta noche'],
+    tomorrow: ['manana'],
+    dayAfterTomorrow: ['pasado manana'],
+    endOfMonth: ['fin de mes', 'final de mes', 'fin del mes', 'final del mes'],
+    relativePrefix: /^(en|dentro de) /,
+    timePrefix: /(?:^| )a las?$/,
+    nextPrefix: /^(el |la )?proxim[oa] /,
+    nextSuffix: / que viene$/,
+    articles: /^(el|la) /,
+  },
+  pt: {
+    presets: {
+      'mais tarde': 'later_today',
+      'hoje mais tarde': 'later_today',
+      'hoje a noite': 'tonight',
+      'esta noite': 'tonight',
+      amanha: 'tomorrow',
+      'fim de semana': 'weekend',
+      'neste fim de semana': 'weekend',
+      'proxima semana': 'next_week',
+      'semana que vem': 'next_week',
+      'proximo mes': 'next_month',
+      'mes que vem': 'next_month',
+      'algum dia': 'someday',
+    },
+    units: [
+      [/^(m|min|minutos?)$/, MINUTE],
+      [/^(h|horas?)$/, HOUR],
+      [/^(d|dias?)$/, DAY],
+      [/^(semanas?)$/, WEEK],
+    ],
+    spelledUnits: /^(min|minutos?|dias?|semanas?)$/,
+    weekdays: [
+      'domingo',
+      'segunda',
+      'terca',
+      'quarta',
+      'quinta',
+      'sexta',
+      'sabado',
+    ],
+    today: ['hoje', 'hoje a noite', 'esta noite'],
+    tomorrow: ['amanha'],
+    dayAfterTomorrow: ['depois de amanha'],
+    endOfMonth: ['fim do mes', 'final do mes', 'fim de mes'],
+    relativePrefix: /^(em|daqui a|dentro de) /,
+    timePrefix: /(?:^| )as?$/,
+    nextPrefix: /^(na |no )?proxim[oa] /,
+    nextSuffix: / que vem$/,
+    articles: /^(na|no|o|a) /,
+  },
+};
+
+const LOCALES = Object.keys(VOCABULARIES) as DelayInputLocale[];
+
+const TIME_PATTERN =
+  /(?:^| )(\d{1,2})(?:(?::|h)(\d{2}))?(h)?\s*(am|pm)?( horas?)?$/;
+
+const normalize = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/(\d),(\d)/g, '$1.$2')
+    .replace(/[.,](?!\d)|(?<!\d)[.,]/g, ' ')
+    .replace(/-feira\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const atTime = (day: Date, hours: number, minutes: number): Date => {
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+const addDays = (day: Date, days: number): Date => {
+  const date = new Date(day);
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+// Weekday names may be shortened to three letters, e.g. "fri" or "mie"
+const getWeekday = (vocabulary: Vocabulary, word: string): number | null => {
+  if (word.length < 3) {
+    return null;
+  }
+  const index = vocabulary.weekdays.findIndex((day) => day.startsWith(word));
+  return index === -1 ? null : index;
+};
+
+function parseRelative(
+  vocabulary: Vocabulary,
+  text: string,
+  now: Date
+): number | null {
+  const hasPrefix = vocabulary.relativePrefix.test(text);
+  const amounts = text.replace(vocabulary.relativePrefix, '');
+  if (!/^(\d+(\.\d+)? ?[a-z]+ ?)+$/.test(amounts)) {
+    return null;
+  }
+
+  let offset = 0;
+  for (const [, amount, space, unit] of amounts.matchAll(
+    /(\d+(?:\.\d+)?)( ?)([a-z]+)/g
+  )) {
+    // Without "in", "15h" is a time of day in Spanish and Portuguese, so
+    // only units written out after a space read as a delay
+    if (!hasPrefix && !(space && vocabulary.spelledUnits.test(unit))) {
+      return null;
+    }
+    const unitMs = vocabulary.units.find(([pattern]) =>
+      pattern.test(unit)
+    )?.[1];
+    if (unitMs === undefined) {
+      return null;
+    }
+    offset += Number(amount) * unitMs;
+  }
+
+  return offset > 0 ? now.getTime() + offset : null;
+}
+
+interface ParsedTime {
+  hours: number;
+  minutes: number;
+  ambiguous: boolean;
+  rest: string;
+}
+
+function parseTime(vocabulary: Vocabulary, text: string): ParsedTime | null {
+  const match = text.match(TIME_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [whole, hourText, minuteText, hourSuffix, meridiem, hourWord] = match;
+  let hours = Number(hourText);
+  const minutes = minuteText ? Number(minuteText) : 0;
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  // "at 3" could mean 3:00 or 15:00; early hours are read as afternoon
+  const ambiguous =
+    !meridiem &&
+    !minuteText &&
+    !hourSuffix &&
+    !hourWord &&
+    hours >= 1 &&
+    hours <= 12;
+  if (ambiguous && hours <= 7) {
+    hours += 12;
+  }
+
+  return {
+    hours,
+    minutes,
+    ambiguous,
+    rest: text
+      .slice(0, -whole.length)
+      .trim()
+      .replace(vocabulary.timePrefix, '')
+      .trim(),
+  };
+}
+
+function parseWithVocabulary(
+  vocabulary: Vocabulary,
+  text: string,
+  settings: DelaySettings,
+  now: Date
+): Omit<ParsedDelay, 'locale'> | null {
+  const presetId = vocabulary.presets[text];
+  if (presetId) {
+    return {
+      presetId,
+      wakeTime: calculatePresetWakeTime(presetId, settings, now),
+      ambiguous: false,
+    };
+  }
+
+  const relativeTime = parseRelative(vocabulary, text, now);
+  if (relativeTime !== null) {
+    return { wakeTime: relativeTime, ambiguous: false };
+  }
+
+  const time = parseTime(vocabulary, text);
+  let dayText = time ? time.rest : text;
+  const [defaultHours, defaultMinutes] = settings.tomorrowTime
+    .split(':')
+    .map(Number);
+  const hours = time ? time.hours : defaultHours;
+  const minutes = time ? time.minutes : defaultMinutes;
+  let ambiguous = time?.ambiguous ?? false;
+  let wakeDate: Date;
+
+  const hasNext =
+    vocabulary.nextPrefix.test(dayText) ||
+    Boolean(vocabulary.nextSuffix?.test(dayText));
+  dayText = dayText
+    .replace(vocabulary.nextPrefix, '')
+    .replace(vocabulary.nextSuffix ?? /$^/, '')
+    .replace(vocabulary.articles, '')
+    .trim();
+
+  if (dayText === '' || vocabulary.today.includes(dayText)) {
+    if (!time) {
+      return null;
+    }
+    wakeDate = atTime(now, hours, minutes);
+    // A bare time that already passed today means tomorrow
+    if (dayText === '' && wakeDate.getTime() <= now.getTime()) {
+      wakeDate = addDays(wakeDate, 1);
+    }
+  } else if (vocabulary.tomorrow.includes(dayText)) {
+    wakeDate = atTime(addDays(now, 1), hours, minutes);
+  } else if (vocabulary.dayAfterTomorrow.includes(dayText)) {
+    wakeDate = atTime(addDays(now, 2), hours, minutes);
+  } else if (vocabulary.endOfMonth.includes(dayText)) {
+    const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+    wakeDate = atTime(lastDay, hours, minutes);
+    if (wakeDate.getTime() <= now.getTime()) {
+      wakeDate = atTime(
+        new Date(now.getFullYear(), now.getMonth() + 2, 0),
+        hours,
+        minutes
+      );
+    }
+  } else {
+    const weekday = getWeekday(vocabulary, dayText);
+    if (weekday === null) {
+      return null;
+    }
+    const daysAhead = (weekday - now.getDay() + 7) % 7 || 7;
+    // "next friday" may mean this week's or next week's, and a bare
+    // weekday naming today may mean today or a week from now
+    ambiguous ||= hasNext ? daysAhead < 7 : daysAhead === 7;
+    wakeDate = atTime(addDays(now, daysAhead), hours, minutes);
+  }
+
+  if (wakeDate.getTime() <= now.getTime()) {
+    return null;
+  }
+
+  return { wakeTime: wakeDate.getTime(), ambiguous };
+}
+
+/**
+ * Turns a phrase such as "tomorrow 9am", "in 45 minutes", "end of month",
+ * "amanhã às 10" or "el lunes" into a wake time. The preferred locale is
+ * tried first, then the other supported ones. Presets resolve through the
+ * same rules as the popup. Returns null when the phrase is not understood
+ * or lies in the past.
+ */
+export default function parseDelayInput(
+  input: string,
+  settings: DelaySettings,
+  now: Date = new Date(),
+  preferredLocale?: string
+): ParsedDelay | null {
+  const text = normalize(input);
+  if (!text) {
+    return null;
+  }
+
+  const preferred = LOCALES.find((locale) =>
+    preferredLocale?.startsWith(locale)
+  );
+  const locales = preferred
+    ? [preferred, ...LOCALES.filter((locale) => locale !== preferred)]
+    : LOCALES;
+
+  const matches = locales.flatMap((locale) => {
+    const parsed = parseWithVocabulary(
+      VOCABULARIES[locale],
+      text,
+      settings,
+      now
+    );
+    return parsed ? [{ ...parsed, locale }] : [];
+  });
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  // Locales that read the same words differently make the input ambiguous
+  const [best] = matches;
+  return {
+    ...best,
+    ambiguous:
+      best.ambiguous ||
+      (!best.presetId &&
+        matches.some((match) => match.wakeTime !== best.wakeTime)),
+  };
+}
+
+/**
+ * Preset phrases that start with the given text, for autocompletion
+ */
+export const getMatchingPresetPhrases = (
+  input: string,
+  locale: DelayInputLocale = 'en'
+): string[] => {
+  const text = normalize(input);
+  return Object.keys(VOCABULARIES[locale].presets).filter(
+    (phrase) => text && phrase.startsWith(text) && phrase !== text
+  );
+};
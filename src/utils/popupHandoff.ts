@@ -0,0 +1,7 @@
+// Keys in storage.session the background worker sets before opening the
+// popup, each read once by the popup and then removed
+
+// Route the popup opens on next time, read by its router
+export const POPUP_ROUTE_KEY = 'popupRoute';
+// A link the custom delay view should schedule instead of the open tabs
+export const LINK_TARGET_KEY = 'delayLinkTarget';
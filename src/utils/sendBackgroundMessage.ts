@@ -0,0 +1,27 @@
+import {
+  BackgroundAction,
+  BackgroundRequest,
+  BackgroundResponse,
+  BackgroundResults,
+} from '@types';
+
+/**
+ * Sends a typed request to the background worker and resolves with its
+ * result, or rejects with the error the worker reported
+ */
+export default async function sendBackgroundMessage<
+  A extends BackgroundAction,
+>(
+  request: Extract<BackgroundRequest, { action: A }>
+): Promise<BackgroundResults[A]> {
+  const response: BackgroundResponse<A> | undefined =
+    await chrome.runtime.sendMessage(request);
+
+  if (!response) {
+    throw new Error(`No response to "${request.action}"`);
+  }
+  if (!response.success) {
+    throw new Error(response.error);
+  }
+  return response.data;
+}
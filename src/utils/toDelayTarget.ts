@@ -0,0 +1,16 @@
+import { DelayTarget } from '@types';
+
+/**
+ * Picks the details of a browser tab that are kept while it is delayed
+ */
+export default function toDelayTarget(tab: chrome.tabs.Tab): DelayTarget {
+  return {
+    url: tab.url,
+    title: tab.title,
+    favicon: tab.favIconUrl,
+    windowIndex: typeof tab.index === 'number' ? tab.index : undefined,
+    pinned: tab.pinned || undefined,
+    muted: tab.mutedInfo?.muted || undefined,
+    sourceWindowId: tab.windowId,
+  };
+}
@@ -0,0 +1,59 @@
+import { DelayedTabGroup, DelayTarget, TabGroupColor } from '@types';
+
+import toDelayTarget from './toDelayTarget';
+
+/**
+ * Looks up the groups the given tabs belong to, keyed by tab group id.
+ * Ungrouped tabs and groups that cannot be read are left out.
+ */
+async function getTabGroups(
+  tabs: chrome.tabs.Tab[]
+): Promise<Map<number, DelayedTabGroup>> {
+  const groups = new Map<number, DelayedTabGroup>();
+
+  if (typeof chrome === 'undefined' || !chrome.tabGroups) {
+    return groups;
+  }
+
+  const groupIds = new Set(
+    tabs
+      .map((tab) => tab.groupId)
+      .filter(
+        (groupId): groupId is number =>
+          typeof groupId === 'number' &&
+          groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE
+      )
+  );
+
+  await Promise.all(
+    [...groupIds].map(async (groupId) => {
+      try {
+        const group = await chrome.tabGroups.get(groupId);
+        groups.set(groupId, {
+          groupKey: String(groupId),
+          title: group.title || undefined,
+          color: group.color as TabGroupColor,
+          collapsed: group.collapsed,
+        });
+      } catch (error) {
+        console.error('Error reading tab group:', groupId, error);
+      }
+    })
+  );
+
+  return groups;
+}
+
+/**
+ * Like toDelayTarget, but also records the tab group each tab belongs to
+ */
+export default async function toDelayTargets(
+  tabs: chrome.tabs.Tab[]
+): Promise<DelayTarget[]> {
+  const groups = await getTabGroups(tabs);
+
+  return tabs.map((tab) => {
+    const tabGroup = groups.get(tab.groupId);
+    return tabGroup ? { ...toDelayTarget(tab), tabGroup } : toDelayTarget(tab);
+  });
+}
@@ -52,8 +52,31 @@ const useTheme = (): {
       }
     };
 
+    // Follow theme changes made elsewhere, such as a restored backup
+    const handleStorageChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ): void => {
+      const newTheme = changes.theme?.newValue;
+      if (
+        areaName === 'local' &&
+        (newTheme === 'light' || newTheme === 'dark')
+      ) {
+        setTheme(newTheme);
+        document.documentElement.setAttribute('data-theme', newTheme);
+      }
+    };
+
+    // Outside the extension, in dev mode, there is no storage to follow
+    const storageEvents =
+      typeof chrome !== 'undefined' ? chrome.storage?.onChanged : undefined;
+
     mediaQuery.addEventListener('change', handleChange);
-    return () => mediaQuery.removeEventListener('change', handleChange);
+    storageEvents?.addListener(handleStorageChange);
+    return () => {
+      mediaQuery.removeEventListener('change', handleChange);
+      storageEvents?.removeListener(handleStorageChange);
+    };
   }, []);
 
   const toggleTheme = (): void => {
@@ -0,0 +1,377 @@
+import {
+  DelayedTab,
+  DelaySettings,
+  QuarantinedRecord,
+  WakeTrigger,
+  WorkSchedule,
+} from '@types';
+import { isValidTimeZone } from '@utils/zonedTime';
+
+const RECURRENCE_TYPES = [
+  'daily',
+  'weekdays',
+  'weekly',
+  'monthly',
+  'custom',
+  'nthWeekday',
+  'lastBusinessDay',
+  'hourly',
+];
+const TIME_ZONE_MODES = ['original', 'current'];
+const CATCH_UP_POLICIES = ['openAll', 'missedWindow', 'summary', 'skipRecurring'];
+const TAB_GROUP_COLORS = [
+  'grey',
+  'blue',
+  'red',
+  'yellow',
+  'green',
+  'pink',
+  'purple',
+  'cyan',
+  'orange',
+];
+const RESTORE_TARGETS = [
+  'originalWindow',
+  'currentWindow',
+  'newWindow',
+  'backgroundTab',
+];
+const WAKE_PACINGS = ['immediate', 'perMinute', 'lazy'];
+const WINDOW_STATES = ['normal', 'maximized', 'fullscreen'];
+const WINDOW_TYPES = ['normal', 'popup'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+export const WAKE_TRIGGERS: WakeTrigger[] = [
+  'time',
+  'idleReturn',
+  'nextSession',
+  'online',
+];
+
+export const BACKUP_FORMAT = 'delayo-backup';
+export const BACKUP_VERSION = 1;
+
+export const DEFAULT_WORK_SCHEDULE: WorkSchedule = {
+  enabled: false,
+  workingDays: [1, 2, 3, 4, 5],
+  startTime: '09:00',
+  endTime: '17:00',
+  holidays: [],
+};
+
+export const DEFAULT_DELAY_SETTINGS: DelaySettings = {
+  laterToday: 3,
+  tonightTime: '18:00',
+  tomorrowTime: '09:00',
+  weekendDay: 'saturday',
+  weekendTime: '09:00',
+  nextWeekSameDay: false,
+  nextWeekDay: 1, // Monday
+  nextWeekTime: '09:00',
+  nextMonthSameDay: true,
+  somedayMinMonths: 3,
+  somedayMaxMonths: 12,
+  timeZoneMode: 'original',
+  catchUpPolicy: 'openAll',
+  keepWakeNotifications: false,
+  restoreTarget: 'originalWindow',
+  quietHours: [],
+  deferWhileFullscreen: true,
+  wakePacing: 'immediate',
+  tabsPerMinute: 5,
+  workSchedule: DEFAULT_WORK_SCHEDULE,
+  syncEnabled: false,
+  idleMinutes: 15,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isInteger = (value: unknown, min: number, max: number): boolean =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isOptional = (
+  value: unknown,
+  check: (item: unknown) => boolean
+): boolean => value === undefined || check(value);
+
+const isString = (value: unknown): boolean => typeof value === 'string';
+
+const isTimeZone = (value: unknown): boolean =>
+  typeof value === 'string' && isValidTimeZone(value);
+
+const isWindowLayout = (value: unknown): boolean =>
+  isRecord(value) &&
+  isOptional(value.left, isFiniteNumber) &&
+  isOptional(value.top, isFiniteNumber) &&
+  isOptional(value.width, isFiniteNumber) &&
+  isOptional(value.height, isFiniteNumber) &&
+  isOptional(value.state, (state) => WINDOW_STATES.includes(state as string)) &&
+  isOptional(value.type, (type) => WINDOW_TYPES.includes(type as string));
+
+const isTabGroup = (value: unknown): boolean =>
+  isRecord(value) &&
+  typeof value.groupKey === 'string' &&
+  isOptional(value.title, isString) &&
+  TAB_GROUP_COLORS.includes(value.color as string) &&
+  typeof value.collapsed === 'boolean';
+
+/**
+ * Returns why a value is not a usable RecurrencePattern, or null when it is
+ */
+export function validateRecurrencePattern(value: unknown): string | null {
+  if (!isRecord(value)) {
+    return 'recurrence pattern is not an object';
+  }
+  if (!RECURRENCE_TYPES.includes(value.type as string)) {
+    return `unknown recurrence type "${String(value.type)}"`;
+  }
+  if (typeof value.time !== 'string' || !TIME_PATTERN.test(value.time)) {
+    return 'recurrence time is not HH:MM';
+  }
+  if (
+    !isOptional(
+      value.daysOfWeek,
+      (days) =>
+        Array.isArray(days) && days.every((day) => isInteger(day, 0, 6))
+    )
+  ) {
+    return 'daysOfWeek must hold weekdays from 0 to 6';
+  }
+  if (!isOptional(value.dayOfMonth, (day) => isInteger(day, 1, 31))) {
+    return 'dayOfMonth must be between 1 and 31';
+  }
+  if (
+    !isOptional(
+      value.weekOfMonth,
+      (week) => week === -1 || isInteger(week, 1, 4)
+    )
+  ) {
+    return 'weekOfMonth must be 1-4 or -1';
+  }
+  if (!isOptional(value.interval, (interval) => isInteger(interval, 1, 999))) {
+    return 'interval must be a positive integer';
+  }
+  if (
+    !isOptional(value.startDate, isFiniteNumber) ||
+    !isOptional(value.endDate, isFiniteNumber)
+  ) {
+    return 'startDate and endDate must be timestamps';
+  }
+  if (!isOptional(value.timeZone, isTimeZone)) {
+    return 'recurrence time zone is not a known IANA zone';
+  }
+  return null;
+}
+
+/**
+ * Returns why a value is not a usable DelayedTab, or null when it is.
+ * Numeric ids from older versions are accepted and normalized elsewhere.
+ */
+export function validateDelayedTab(value: unknown): string | null {
+  if (!isRecord(value)) {
+    return 'record is not an object';
+  }
+  if (
+    !(typeof value.id === 'string' && value.id) &&
+    !isFiniteNumber(value.id)
+  ) {
+    return 'id is missing';
+  }
+  if (!isFiniteNumber(value.wakeTime)) {
+    return 'wakeTime is not a timestamp';
+  }
+  if (!isFiniteNumber(value.createdAt)) {
+    return 'createdAt is not a timestamp';
+  }
+  if (
+    !isOptional(value.trigger, (trigger) =>
+      WAKE_TRIGGERS.includes(trigger as WakeTrigger)
+    )
+  ) {
+    return 'trigger is unknown';
+  }
+  if (!isOptional(value.retryCount, (count) => isInteger(count, 0, Infinity))) {
+    return 'retryCount must be a whole number';
+  }
+  if (
+    !isOptional(value.url, isString) ||
+    !isOptional(value.title, isString) ||
+    !isOptional(value.favicon, isString) ||
+    !isOptional(value.windowSessionId, isString) ||
+    !isOptional(value.sourceSessionId, isString)
+  ) {
+    return 'url, title, favicon and session ids must be strings';
+  }
+  if (
+    !isOptional(value.windowIndex, isFiniteNumber) ||
+    !isOptional(value.missedAt, isFiniteNumber) ||
+    !isOptional(value.sourceWindowId, isFiniteNumber)
+  ) {
+    return 'windowIndex, missedAt and sourceWindowId must be numbers';
+  }
+  if (
+    !isOptional(value.isRecurring, (flag) => typeof flag === 'boolean') ||
+    !isOptional(value.pinned, (flag) => typeof flag === 'boolean') ||
+    !isOptional(value.muted, (flag) => typeof flag === 'boolean')
+  ) {
+    return 'isRecurring, pinned and muted must be booleans';
+  }
+  if (value.recurrencePattern !== undefined) {
+    const patternError = validateRecurrencePattern(value.recurrencePattern);
+    if (patternError) {
+      return patternError;
+    }
+  }
+  if (
+    !isOptional(value.timeZone, isTimeZone) ||
+    !isOptional(value.timeZoneMode, (mode) =>
+      TIME_ZONE_MODES.includes(mode as string)
+    )
+  ) {
+    return 'time zone settings are invalid';
+  }
+  if (!isOptional(value.tabGroup, isTabGroup)) {
+    return 'tabGroup is invalid';
+  }
+  if (!isOptional(value.windowLayout, isWindowLayout)) {
+    return 'windowLayout is invalid';
+  }
+  return null;
+}
+
+/**
+ * Returns why a value is not a backup this version can restore, or null
+ * when it is. Its delayed tabs are validated one by one on restore.
+ */
+export function validateBackup(value: unknown): string | null {
+  if (!isRecord(value) || value.format !== BACKUP_FORMAT) {
+    return 'file is not a Delayo backup';
+  }
+  if (!isInteger(value.version, 1, BACKUP_VERSION)) {
+    return `backup version ${String(value.version)} is not supported`;
+  }
+  if (!Array.isArray(value.delayedTabs)) {
+    return 'backup has no delayedTabs list';
+  }
+  return null;
+}
+
+/**
+ * Splits stored records into usable delayed tabs and quarantined records
+ */
+export function partitionDelayedTabs(
+  records: unknown,
+  now: number = Date.now()
+): { valid: DelayedTab[]; quarantined: QuarantinedRecord[] } {
+  const valid: DelayedTab[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+
+  if (!Array.isArray(records)) {
+    if (records !== undefined && records !== null) {
+      quarantined.push({
+        record: records,
+        reason: 'delayedTabs is not a list',
+        quarantinedAt: now,
+      });
+    }
+    return { valid, quarantined };
+  }
+
+  for (const record of records) {
+    const reason = validateDelayedTab(record);
+    if (reason) {
+      quarantined.push({ record, reason, quarantinedAt: now });
+    } else {
+      const tab = record as DelayedTab;
+      valid.push({ ...tab, id: String(tab.id) });
+    }
+  }
+
+  return { valid, quarantined };
+}
+
+/**
+ * Fills in defaults for missing or malformed delay settings fields
+ */
+export function sanitizeDelaySettings(value: unknown): DelaySettings {
+  if (!isRecord(value)) {
+    return { ...DEFAULT_DELAY_SETTINGS };
+  }
+
+  const pick = <K extends keyof DelaySettings>(
+    key: K,
+    isValid: (item: unknown) => boolean
+  ): DelaySettings[K] =>
+    isValid(value[key])
+      ? (value[key] as DelaySettings[K])
+      : DEFAULT_DELAY_SETTINGS[key];
+
+  const isTime = (item: unknown): boolean =>
+    typeof item === 'string' && TIME_PATTERN.test(item);
+  const isBoolean = (item: unknown): boolean => typeof item === 'boolean';
+  const isQuietHoursRange = (item: unknown): boolean =>
+    isRecord(item) &&
+    isInteger(item.day, 0, 6) &&
+    isTime(item.start) &&
+    isTime(item.end);
+
+  return {
+    laterToday: pick('laterToday', (item) => isInteger(item, 1, 24)),
+    tonightTime: pick('tonightTime', isTime),
+    tomorrowTime: pick('tomorrowTime', isTime),
+    weekendDay: pick('weekendDay', (item) =>
+      ['saturday', 'sunday'].includes(item as string)
+    ),
+    weekendTime: pick('weekendTime', isTime),
+    nextWeekSameDay: pick('nextWeekSameDay', isBoolean),
+    nextWeekDay: pick('nextWeekDay', (item) => isInteger(item, 0, 6)),
+    nextWeekTime: pick('nextWeekTime', isTime),
+    nextMonthSameDay: pick('nextMonthSameDay', isBoolean),
+    somedayMinMonths: pick('somedayMinMonths', (item) =>
+      isInteger(item, 1, 36)
+    ),
+    somedayMaxMonths: pick('somedayMaxMonths', (item) =>
+      isInteger(item, 1, 36)
+    ),
+    timeZoneMode: pick('timeZoneMode', (item) =>
+      TIME_ZONE_MODES.includes(item as string)
+    ),
+    catchUpPolicy: pick('catchUpPolicy', (item) =>
+      CATCH_UP_POLICIES.includes(item as string)
+    ),
+    keepWakeNotifications: pick('keepWakeNotifications', isBoolean),
+    restoreTarget: pick('restoreTarget', (item) =>
+      RESTORE_TARGETS.includes(item as string)
+    ),
+    quietHours: pick(
+      'quietHours',
+      (item) => Array.isArray(item) && item.every(isQuietHoursRange)
+    ),
+    deferWhileFullscreen: pick('deferWhileFullscreen', isBoolean),
+    wakePacing: pick('wakePacing', (item) =>
+      WAKE_PACINGS.includes(item as string)
+    ),
+    tabsPerMinute: pick('tabsPerMinute', (item) => isInteger(item, 1, 60)),
+    workSchedule: pick(
+      'workSchedule',
+      (item) =>
+        isRecord(item) &&
+        isBoolean(item.enabled) &&
+        Array.isArray(item.workingDays) &&
+        item.workingDays.every((day) => isInteger(day, 0, 6)) &&
+        isTime(item.startTime) &&
+        isTime(item.endTime) &&
+        Array.isArray(item.holidays) &&
+        item.holidays.every(
+          (date) => typeof date === 'string' && DATE_PATTERN.test(date)
+        )
+    ),
+    syncEnabled: pick('syncEnabled', isBoolean),
+    idleMinutes: pick('idleMinutes', (item) => isInteger(item, 1, 240)),
+  };
+}
@@ -0,0 +1,86 @@
+import { WorkSchedule } from '@types';
+
+// Far enough to get past any realistic run of weekends and holidays
+const MAX_SEARCH_DAYS = 366;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const formatLocalDate = (
+  year: number,
+  month: number, // 0-11
+  day: number
+): string =>
+  `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/**
+ * Whether a calendar day is one of the working days and not a holiday
+ */
+export function isWorkingDay(
+  schedule: WorkSchedule,
+  year: number,
+  month: number, // 0-11
+  day: number,
+  weekday: number
+): boolean {
+  return (
+    schedule.workingDays.includes(weekday) &&
+    !schedule.holidays.includes(formatLocalDate(year, month, day))
+  );
+}
+
+/**
+ * Moves a wake time into working hours on a working day. Times inside
+ * working hours are kept. A time before the workday starts moves to its
+ * start. Later times, and times on days off, move to the next working day,
+ * at the same time of day when that falls within working hours, otherwise
+ * at the start.
+ */
+export function rollToWorkingSlot(
+  wakeTime: number,
+  schedule: WorkSchedule | undefined
+): number {
+  if (!schedule?.enabled || schedule.workingDays.length === 0) {
+    return wakeTime;
+  }
+
+  const startMinutes = toMinutes(schedule.startTime);
+  const endMinutes = toMinutes(schedule.endTime);
+  const date = new Date(wakeTime);
+  const timeOfDay = date.getHours() * 60 + date.getMinutes();
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const candidate = new Date(wakeTime);
+    candidate.setDate(candidate.getDate() + offset);
+
+    if (
+      !isWorkingDay(
+        schedule,
+        candidate.getFullYear(),
+        candidate.getMonth(),
+        candidate.getDate(),
+        candidate.getDay()
+      )
+    ) {
+      continue;
+    }
+
+    if (offset === 0) {
+      if (timeOfDay >= endMinutes) {
+        continue;
+      }
+      if (timeOfDay >= startMinutes) {
+        return wakeTime;
+      }
+    } else if (timeOfDay >= startMinutes && timeOfDay < endMinutes) {
+      return candidate.getTime();
+    }
+
+    candidate.setHours(Math.floor(startMinutes / 60), startMinutes % 60, 0, 0);
+    return candidate.getTime();
+  }
+
+  return wakeTime;
+}
@@ -0,0 +1,113 @@
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 0-11
+  day: number; // 1-31
+  hours: number;
+  minutes: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export function getSystemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of a timestamp as seen in the given IANA zone
+ */
+export function getZonedDateTime(
+  timestamp: number,
+  timeZone: string
+): ZonedDateTime {
+  const parts = getFormatter(timeZone).formatToParts(new Date(timestamp));
+  const value = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: value('year'),
+    month: value('month') - 1,
+    day: value('day'),
+    hours: value('hour'),
+    minutes: value('minute'),
+  };
+}
+
+const getOffset = (timestamp: number, timeZone: string): number => {
+  const { year, month, day, hours, minutes } = getZonedDateTime(
+    timestamp,
+    timeZone
+  );
+  const minuteStart = timestamp - (((timestamp % 60000) + 60000) % 60000);
+  return Date.UTC(year, month, day, hours, minutes) - minuteStart;
+};
+
+/**
+ * Converts a wall-clock time in the given zone to a timestamp.
+ * Times skipped by a DST jump move forward by the size of the gap, and
+ * times repeated when clocks fall back resolve to their first occurrence.
+ */
+export function zonedTimeToEpoch(
+  { year, month, day, hours, minutes }: ZonedDateTime,
+  timeZone: string
+): number {
+  const wallClock = Date.UTC(year, month, day, hours, minutes);
+  // Zones change offset at most once a day, so the offsets a day before and
+  // after bracket every candidate for this wall-clock time
+  const offsetBefore = getOffset(wallClock - DAY_MS, timeZone);
+  const offsetAfter = getOffset(wallClock + DAY_MS, timeZone);
+
+  const candidates = [wallClock - offsetBefore, wallClock - offsetAfter].filter(
+    (candidate) => wallClock - getOffset(candidate, timeZone) === candidate
+  );
+
+  if (candidates.length === 0) {
+    return wallClock - offsetBefore;
+  }
+
+  return Math.min(...candidates);
+}
+
+/**
+ * Keeps the wall-clock time of a timestamp while moving it to another zone
+ */
+export function shiftToTimeZone(
+  timestamp: number,
+  fromTimeZone: string,
+  toTimeZone: string
+): number {
+  if (fromTimeZone === toTimeZone) {
+    return timestamp;
+  }
+  return zonedTimeToEpoch(
+    getZonedDateTime(timestamp, fromTimeZone),
+    toTimeZone
+  );
+}